@@ -0,0 +1,237 @@
+/**
+ * AMF0 解码器模块
+ *
+ * 在 AMF3 解码器的基础上实现 AMF0，遇到 AMF3_OBJECT (0x11) 时切换到 AMF3 解码，
+ * 切换前后共享同一个解码器实例，因此 AMF3 的引用表在多次切换之间保持一致。
+ */
+
+import { AMF0 } from './types';
+import { AMFXmlDocument } from './classes';
+import { AMFDecoder, AMFDecoderOptions } from './decoder';
+import { AMFContext } from './context';
+import { AMFError, AMFErrorCode, AMFInvalidReferenceError, AMFUnknownTypeError } from './errors';
+
+/**
+ * AMF0 解码器
+ */
+export class AMF0Decoder extends AMFDecoder {
+    /** AMF0 对象引用表 */
+    private amf0ObjectReferences: any[];
+
+    /** 当前是否处于 AMF3 切换中（嵌套深度） */
+    private amf3Depth: number;
+
+    /**
+     * @param data - 要解码的数据
+     * @param context - 上下文或解码器选项
+     */
+    constructor(data: Uint8Array, context: AMFContext | AMFDecoderOptions = AMFContext.defaultContext) {
+        super(data, context);
+        this.amf0ObjectReferences = [];
+        this.amf3Depth = 0;
+    }
+
+    /**
+     * 清空 AMF0 与 AMF3 引用表
+     */
+    resetReferences(): void {
+        super.resetReferences();
+        this.amf0ObjectReferences = [];
+    }
+
+    /**
+     * 记录 AMF3 与 AMF0 引用表当前的长度
+     */
+    saveReferences(): number[] {
+        const snapshot = super.saveReferences();
+        snapshot.push(this.amf0ObjectReferences.length);
+        return snapshot;
+    }
+
+    /**
+     * 把 AMF3 与 AMF0 引用表恢复到快照时的长度
+     */
+    restoreReferences(snapshot: number[]): void {
+        super.restoreReferences(snapshot);
+        this.amf0ObjectReferences.length = snapshot[snapshot.length - 1];
+    }
+
+    /**
+     * 当前正在解码的值是否为顶层值，顶层的 AMF3_OBJECT 切换到的 AMF3 值也算作顶层值
+     */
+    isTopLevelValue(): boolean {
+        return this.depth === (this.amf3Depth > 0 ? 2 : 1);
+    }
+
+    /**
+     * 解码一个 AMF0 值
+     *
+     * 处于 AMF3 切换中时（例如 Externalizable.read 内部调用），按 AMF3 解码
+     */
+    decode(): any {
+        if (this.amf3Depth > 0) {
+            return super.decode();
+        }
+        const typeId = this.readUInt8();
+        const refCount = this.amf0ObjectReferences.length;
+        this.enterValue();
+        if (this.observer !== null) {
+            this.observer.enter(typeId, this.getPosition() - 1, 0);
+        }
+        let value: any;
+        try {
+            value = this.readAMF0ByTypeId(typeId);
+        } catch (e) {
+            if (!(e instanceof AMFError)) {
+                throw e;
+            }
+            e.setMarker(typeId);
+            if (this.diagnostics === null) {
+                throw e;
+            }
+            value = this.recoverFrom(e, this.amf0ObjectReferences.length > refCount ? this.amf0ObjectReferences[refCount] : undefined);
+        } finally {
+            this.depth--;
+        }
+        if (this.observer !== null) {
+            this.observer.exit(value, this.getPosition());
+        }
+        return value;
+    }
+
+    /**
+     * 按 AMF0 类型 ID 分发解码
+     */
+    private readAMF0ByTypeId(typeId: number): any {
+        switch (typeId) {
+            case 0x00: // NUMBER
+                return this.readDoubleBE();
+            case 0x01: // BOOLEAN
+                return this.readUInt8() !== 0;
+            case 0x02: // STRING
+                return this.readLimitedString(this.readUInt16BE());
+            case 0x03: // OBJECT
+                return this.readAMF0Object('');
+            case 0x05: // NULL
+                return null;
+            case 0x06: // UNDEFINED
+            case 0x0D: // UNSUPPORTED
+                return undefined;
+            case 0x07: // REFERENCE
+                return this.readAMF0Reference();
+            case 0x08: // ECMA_ARRAY
+                return this.readAMF0ECMAArray();
+            case 0x0A: // STRICT_ARRAY
+                return this.readAMF0StrictArray();
+            case 0x0B: // DATE
+                return this.readAMF0Date();
+            case 0x0C: // LONG_STRING
+                return this.readLimitedString(this.readUInt32BE());
+            case 0x0F: // XML
+                this.countObject();
+                return new AMFXmlDocument(this.readLimitedString(this.readUInt32BE()));
+            case 0x10: // TYPED_OBJECT
+                return this.readAMF0Object(this.readString());
+            case 0x11: // AMF3_OBJECT
+                return this.readAMF3Value();
+            default:
+                throw new AMFUnknownTypeError(0, typeId, this.getPosition() - 1);
+        }
+    }
+
+    /**
+     * 切换到 AMF3 解码一个完整值
+     */
+    private readAMF3Value(): any {
+        this.amf3Depth++;
+        try {
+            return super.decode();
+        } finally {
+            this.amf3Depth--;
+        }
+    }
+
+    /**
+     * 读取 AMF0 引用
+     */
+    private readAMF0Reference(): any {
+        const index = this.readUInt16BE();
+        if (index >= this.amf0ObjectReferences.length) {
+            throw new AMFInvalidReferenceError('amf0Object', index, this.amf0ObjectReferences.length, this.getPosition());
+        }
+        return this.amf0ObjectReferences[index];
+    }
+
+    /**
+     * 读取 AMF0 日期（时区字段按规范忽略）
+     */
+    private readAMF0Date(): Date {
+        this.countObject();
+        const time = this.readDoubleBE();
+        this.readInt16BE(); // 时区
+        return new Date(time);
+    }
+
+    /**
+     * 读取 AMF0 对象（匿名或类型化）
+     */
+    private readAMF0Object(className: string): any {
+        this.countObject();
+        const result = this.createTypedObject(className, true);
+        this.amf0ObjectReferences.push(result);
+        this.readAMF0Properties(result);
+        return result;
+    }
+
+    /**
+     * 读取 AMF0 ECMA 数组（关联数组）
+     */
+    private readAMF0ECMAArray(): Record<string, any> {
+        this.readUInt32BE(); // 元素数量，仅作提示，以 OBJECT_END 为准
+        this.countObject();
+        const result: Record<string, any> = {};
+        this.amf0ObjectReferences.push(result);
+        this.readAMF0Properties(result);
+        return result;
+    }
+
+    /**
+     * 读取 AMF0 严格数组
+     */
+    private readAMF0StrictArray(): any[] {
+        const length = this.readUInt32BE();
+        this.checkLimit('maxCollectionLength', length);
+        this.countObject();
+        const result: any[] = [];
+        this.amf0ObjectReferences.push(result);
+        for (let i = 0; i < length; i++) {
+            result.push(this.decodeAt(i));
+        }
+        return result;
+    }
+
+    /**
+     * 读取 AMF0 属性列表，直到空字符串 + OBJECT_END
+     */
+    private readAMF0Properties(target: Record<string, any>): void {
+        let count = 0;
+        while (true) {
+            const key = this.readString();
+            if (key === '') {
+                const marker = this.readUInt8();
+                if (marker !== AMF0.OBJECT_END.id) {
+                    throw new AMFError(
+                        AMFErrorCode.INVALID_DATA,
+                        `Expected AMF0 object end marker 0x09, got 0x${marker.toString(16).padStart(2, '0')}`,
+                        this.getPosition() - 1
+                    );
+                }
+                return;
+            }
+            this.checkLimit('maxCollectionLength', ++count);
+            target[key] = this.decodeAt(key);
+        }
+    }
+}
+
+export default AMF0Decoder;
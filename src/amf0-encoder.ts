@@ -0,0 +1,224 @@
+/**
+ * AMF0 编码器模块
+ *
+ * 在 AMF3 编码器的基础上实现 AMF0，遇到 AMF3_OBJECT (0x11) 时切换回 AMF3 编码，
+ * 切换前后共享同一个编码器实例，因此 AMF3 的引用表在多次切换之间保持一致。
+ */
+
+import { AMF0, AMFType } from './types';
+import { ForcedTypeValue } from './classes';
+import { AMFEncoder, AMFEncoderOptions, getSerializableKeys } from './encoder';
+import { AMFContext } from './context';
+import { getUTF8Length } from './writer';
+import { AMFEncodeError } from './errors';
+
+/**
+ * AMF0 编码器
+ */
+export class AMF0Encoder extends AMFEncoder {
+    /** AMF0 对象引用表 */
+    private amf0ObjectReferences: any[];
+
+    /** 是否将所有值切换为 AMF3 编码（objectEncoding = 3） */
+    private useAMF3: boolean;
+
+    /** 当前是否处于 AMF3 切换中（嵌套深度） */
+    private amf3Depth: number;
+
+    /**
+     * @param useAMF3 - 为 true 时所有未强制类型的值都通过 AMF3_OBJECT 写入
+     * @param context - 上下文或编码器选项
+     */
+    constructor(useAMF3: boolean = false, context: AMFContext | AMFEncoderOptions = AMFContext.defaultContext) {
+        super(context);
+        this.amf0ObjectReferences = [];
+        this.useAMF3 = useAMF3;
+        this.amf3Depth = 0;
+    }
+
+    /**
+     * 编码一个 AMF0 值（会写入类型标记）
+     *
+     * 处于 AMF3 切换中时（例如 Externalizable.write 内部调用），按 AMF3 编码
+     */
+    writeObject(value: any): void {
+        if (this.amf3Depth > 0) {
+            super.writeObject(value);
+            return;
+        }
+        this.encodeAMF0Value(value);
+    }
+
+    /**
+     * 兼容旧接口，含义与 writeObject 相同
+     */
+    encode(value: any): void {
+        this.writeObject(value);
+    }
+
+    /**
+     * 编码值主体（无类型标记）
+     */
+    serialize(value: any): void {
+        if (this.amf3Depth > 0) {
+            super.serialize(value);
+            return;
+        }
+        const type = this.inferAMF0Type(value);
+        this.writeAMF0ByType(value instanceof ForcedTypeValue ? value.value : value, type);
+    }
+
+    /**
+     * 以 AMF3 编码写入一个值（写入 0x11 切换标记）
+     */
+    writeAMF3Object(value: any): void {
+        this.writeByte(AMF0.AMF3_OBJECT.id);
+        this.writeAMF3Body(value);
+    }
+
+    /**
+     * 在 AMF3 模式下写入一个完整的 AMF3 值
+     */
+    private writeAMF3Body(value: any): void {
+        this.amf3Depth++;
+        try {
+            super.writeObject(value);
+        } finally {
+            this.amf3Depth--;
+        }
+    }
+
+    /**
+     * 推断值的 AMF0 类型
+     */
+    private inferAMF0Type(value: any): AMFType {
+        if (this.useAMF3 && !(value instanceof ForcedTypeValue)) {
+            return AMF0.AMF3_OBJECT;
+        }
+        let type: AMFType;
+        try {
+            type = AMF0.infer(value);
+        } catch (e) {
+            throw new AMFEncodeError(`Cannot encode value of type ${typeof value}`, this.getLength());
+        }
+        // 通过 registerClassAlias 注册的类即使没有继承 Serializable 也按类型化对象编码
+        if (type === AMF0.ECMA_ARRAY && this.getClassName(value) !== '') {
+            return AMF0.TYPED_OBJECT;
+        }
+        return type;
+    }
+
+    /**
+     * 编码一个完整的 AMF0 值（含类型标记与引用处理）
+     */
+    private encodeAMF0Value(value: any): void {
+        let type = this.inferAMF0Type(value);
+        const realValue = value instanceof ForcedTypeValue ? value.value : value;
+
+        if (type === AMF0.AMF3_OBJECT) {
+            this.writeAMF3Object(realValue);
+            return;
+        }
+
+        if (type.referencable) {
+            const index = this.amf0ObjectReferences.indexOf(realValue);
+            if (index !== -1 && index <= 0xFFFF) {
+                this.writeByte(AMF0.REFERENCE.id);
+                this.writeUInt16BE(index);
+                return;
+            }
+            this.amf0ObjectReferences.push(realValue);
+        }
+
+        // 按 UTF-8 字节长度决定是否需要长字符串
+        if (type === AMF0.STRING && getUTF8Length(realValue) > 0xFFFF) {
+            type = AMF0.LONG_STRING;
+        }
+
+        this.writeByte(type.id);
+        this.writeAMF0ByType(realValue, type);
+    }
+
+    /**
+     * 按类型写入 AMF0 值主体（不包含类型标记）
+     */
+    private writeAMF0ByType(value: any, type: AMFType): void {
+        switch (type.id) {
+            case 0x00: // NUMBER
+                this.writeDoubleBE(value);
+                return;
+            case 0x01: // BOOLEAN
+                this.writeByte(value ? 1 : 0);
+                return;
+            case 0x02: // STRING
+                this.writeString(value);
+                return;
+            case 0x03: // OBJECT
+                this.writeAMF0Properties(value, getSerializableKeys(value));
+                return;
+            case 0x05: // NULL
+            case 0x06: // UNDEFINED
+            case 0x0D: // UNSUPPORTED
+                return;
+            case 0x08: // ECMA_ARRAY
+                this.writeECMAArray(value);
+                return;
+            case 0x0A: // STRICT_ARRAY
+                this.writeUInt32BE(value.length);
+                for (let i = 0; i < value.length; i++) {
+                    this.writeObjectAt(value[i], i);
+                }
+                return;
+            case 0x0B: // DATE
+                this.writeDoubleBE((value as Date).getTime());
+                this.writeInt16BE(0); // 时区，规范要求写 0
+                return;
+            case 0x0C: // LONG_STRING
+            case 0x0F: // XML
+                this.writeLongString(String(value));
+                return;
+            case 0x10: // TYPED_OBJECT
+                this.writeString(this.getClassName(value));
+                this.writeAMF0Properties(value, getSerializableKeys(value));
+                return;
+            case 0x11: // AMF3_OBJECT
+                this.writeAMF3Body(value);
+                return;
+            default:
+                throw new AMFEncodeError(`Unsupported AMF0 type ${type.name}`, this.getLength());
+        }
+    }
+
+    /**
+     * 写入 AMF0 长字符串（4 字节长度）
+     */
+    private writeLongString(value: string): void {
+        this.writeUInt32BE(getUTF8Length(value));
+        this.writeUTF8(value);
+    }
+
+    /**
+     * 写入 AMF0 ECMA 数组（关联数组）
+     */
+    private writeECMAArray(value: Record<string, any>): void {
+        const keys = Object.keys(value).filter(function filterInternal(key: string): boolean {
+            return key.indexOf('__') !== 0;
+        });
+        this.writeUInt32BE(keys.length);
+        this.writeAMF0Properties(value, keys);
+    }
+
+    /**
+     * 写入 AMF0 属性列表，以空字符串 + OBJECT_END 结尾
+     */
+    private writeAMF0Properties(value: Record<string, any>, keys: string[]): void {
+        for (let i = 0; i < keys.length; i++) {
+            this.writeString(keys[i]);
+            this.writeObjectAt(value[keys[i]], keys[i]);
+        }
+        this.writeUInt16BE(0);
+        this.writeByte(AMF0.OBJECT_END.id);
+    }
+}
+
+export default AMF0Encoder;
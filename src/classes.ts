@@ -7,7 +7,9 @@
 
 import type { AMFType } from './types.js';
 import type { AMFEncoder } from './encoder.js';
-import type { AMFDecoder } from './decoder.js';
+import type { AMFDecoder, AMFReferences } from './decoder.js';
+import { AMFError, AMFUnregisteredClassError } from './errors.js';
+import type { ExternalizableReader } from './context.js';
 
 /**
  * 强制类型值类
@@ -41,6 +43,160 @@ export class ForcedTypeValue {
     }
 }
 
+/**
+ * AMF3 向量类
+ *
+ * 表示 ActionScript 的 Vector.<int> / Vector.<uint> / Vector.<Number> / Vector.<Object>，
+ * 本身就是一个数组，额外保存向量类型、fixed 标记和元素类名，
+ * 以便解码后再编码时与原始数据逐字节一致。
+ *
+ * @example
+ * ```typescript
+ * const ints = new AMFVector(AMF3.VECTOR_INT, [1, 2, 3]);
+ * const users = new AMFVector(AMF3.VECTOR_OBJECT, [user1, user2], true, 'demo.User');
+ * encoder.writeObject(ints);
+ * ```
+ */
+export class AMFVector<T = any> extends Array<T> {
+    /** 向量类型（AMF3.VECTOR_INT / VECTOR_UINT / VECTOR_DOUBLE / VECTOR_OBJECT） */
+    public __type: AMFType;
+
+    /** 是否为定长向量 */
+    public __fixed: boolean;
+
+    /** 元素类名（仅 VECTOR_OBJECT 使用） */
+    public __class: string;
+
+    /**
+     * map / filter 等方法返回普通数组
+     */
+    static get [Symbol.species](): ArrayConstructor {
+        return Array;
+    }
+
+    /**
+     * 创建一个 AMF3 向量
+     *
+     * @param type - 向量类型
+     * @param items - 初始元素
+     * @param fixed - 是否为定长向量，默认 false
+     * @param className - 元素类名（仅 VECTOR_OBJECT 使用），默认为空
+     */
+    constructor(type: AMFType, items: ArrayLike<T> = [], fixed: boolean = false, className: string = '') {
+        super();
+        this.__type = type;
+        this.__fixed = fixed;
+        this.__class = className;
+        for (let i = 0; i < items.length; i++) {
+            this.push(items[i]);
+        }
+    }
+}
+
+/**
+ * AMF3 字典类
+ *
+ * 表示 ActionScript 的 flash.utils.Dictionary，本身就是一个 Map，
+ * 键可以是任意值（包括对象），额外保存 weakKeys 标记。
+ * 编码时普通 Map 也会被写为 Dictionary（weakKeys 为 false）。
+ *
+ * @example
+ * ```typescript
+ * const dict = new AMFDictionary<any, string>([[user, 'owner'], [42, 'answer']]);
+ * encoder.writeObject(dict);
+ * ```
+ */
+export class AMFDictionary<K = any, V = any> extends Map<K, V> {
+    /** 是否使用弱引用键 */
+    public __weakKeys: boolean;
+
+    /**
+     * 创建一个 AMF3 字典
+     *
+     * @param entries - 初始键值对
+     * @param weakKeys - 是否使用弱引用键，默认 false
+     */
+    constructor(entries?: Iterable<readonly [K, V]> | null, weakKeys: boolean = false) {
+        super(entries);
+        this.__weakKeys = weakKeys;
+    }
+}
+
+/**
+ * E4X XML 类
+ *
+ * 表示 ActionScript 3 的 XML 对象（AMF3 XML 类型 0x0B），仅保存 XML 文本
+ */
+export class AMFXml {
+    /** XML 文本 */
+    public value: string;
+
+    /**
+     * @param value - XML 文本
+     */
+    constructor(value: string = '') {
+        this.value = value;
+    }
+
+    toString(): string {
+        return this.value;
+    }
+}
+
+/**
+ * 旧版 XMLDocument 类
+ *
+ * 表示 flash.xml.XMLDocument（AMF3 XML_DOC 类型 0x07，AMF0 XML 类型 0x0F），仅保存 XML 文本
+ */
+export class AMFXmlDocument {
+    /** XML 文本 */
+    public value: string;
+
+    /**
+     * @param value - XML 文本
+     */
+    constructor(value: string = '') {
+        this.value = value;
+    }
+
+    toString(): string {
+        return this.value;
+    }
+}
+
+/**
+ * 宽松解码时无法解码的值的占位对象
+ *
+ * 记录出错的原因、字节位置、类型标记和类名（未注册的外部化类型）
+ */
+export class AMFPlaceholder {
+    /** 错误码 */
+    public code: string;
+
+    /** 检测到错误时的字节位置 */
+    public offset: number;
+
+    /** 值的类型标记，未知时为 undefined */
+    public marker: number | undefined;
+
+    /** AMF 中的类名（仅未注册的类型），否则为空字符串 */
+    public className: string;
+
+    /** 错误信息 */
+    public message: string;
+
+    /**
+     * @param error - 导致无法解码的错误
+     */
+    constructor(error: AMFError) {
+        this.code = error.code;
+        this.offset = error.offset;
+        this.marker = error.marker;
+        this.className = 'className' in error ? String(error.className) : '';
+        this.message = error.message;
+    }
+}
+
 /**
  * AMF3 对象特征类
  *
@@ -124,6 +280,14 @@ export class Serializable {
      */
     public __dynamic?: boolean;
 
+    /**
+     * 是否按可外部化对象编码
+     * Externalizable 子类始终按可外部化对象编码；
+     * 无法继承 Externalizable 的类（例如继承了其他 Serializable 子类）
+     * 可以把它设为 true 并实现 write(encoder) 方法
+     */
+    public __externalizable?: boolean;
+
     /**
      * 创建一个可序列化对象
      *
@@ -233,3 +397,114 @@ export class Externalizable extends Serializable {
         throw new Error('可外部化对象没有定义 read 方法！');
     }
 }
+
+/**
+ * 原样保留的外部化对象
+ *
+ * 保存外部化数据的原始字节（Trait 之后的部分），编码时原样写回，用于在不知道类结构时透传未注册的外部化类型。
+ * 原始字节中的字符串、对象和 Trait 引用指向原数据的引用表，因此只有在外围数据按原样重新编码时
+ * （例如解码后只修改其他字段再编码整个值）写回的结果才与原数据一致。
+ *
+ * @example
+ * ```typescript
+ * // 未注册的外部化类型捕获剩余的全部数据（适用于它是数据中最后一个值的情况）
+ * const value = new AMFDecoder(bytes, { unknownExternalizable: AMFRawExternalizable }).decode();
+ *
+ * // 已知结构的类型：按结构读取一遍来确定长度，同时保留原始字节
+ * context.registerExternalizable('com.example.Token', AMFRawExternalizable.reader(decoder => {
+ *     decoder.decode();
+ *     decoder.readInt32BE();
+ * }));
+ * ```
+ */
+export class AMFRawExternalizable extends Externalizable {
+    /** 外部化数据的原始字节 */
+    public bytes: Uint8Array;
+
+    /** 原始字节中定义的引用，编码时加入编码器的引用表；未知时为 null */
+    public references: AMFReferences | null;
+
+    /**
+     * @param className - 对象的类名
+     * @param bytes - 外部化数据的原始字节
+     * @param references - 原始字节中定义的引用
+     */
+    constructor(className: string = '', bytes: Uint8Array = new Uint8Array(0), references: AMFReferences | null = null) {
+        super(className);
+        this.bytes = bytes;
+        this.references = references;
+    }
+
+    /**
+     * 原样写回原始字节
+     *
+     * @param encoder - AMF 编码器实例
+     */
+    write(encoder: AMFEncoder): void {
+        encoder.write(this.bytes);
+        if (this.references) {
+            encoder.addReferences(this.references);
+        }
+    }
+
+    /**
+     * 把顶层值剩余的全部数据作为原始字节读取
+     *
+     * 只适用于外部化对象本身就是用 decode / decodeExact 解码的顶层值的情况，它延伸到数据末尾；
+     * 数据包的 body 按长度字段确定结束位置，流式解码器等到 end 时才捕获。
+     * 对象嵌套在其他值中，或者用 decodeAll 等方式解码多个值时无法确定它的长度，抛出 AMFUnregisteredClassError，
+     * 这类对象需要用 reader 注册按结构读取的读取器。原始字节中的对象不会进入解码器的引用表
+     *
+     * @param decoder - AMF 解码器实例
+     * @returns 原样保留的对象（类名由解码器设置）
+     * @throws AMFUnregisteredClassError 无法确定外部化对象在哪里结束时
+     */
+    static read(decoder: AMFDecoder): AMFRawExternalizable {
+        const length = decoder.getValueBytesRemaining();
+        if (length === null) {
+            const className = decoder.getExternalizableName();
+            throw new AMFUnregisteredClassError(
+                className,
+                true,
+                decoder.getPosition(),
+                `Cannot capture externalizable class "${className}" as raw bytes: its end is unknown; register AMFRawExternalizable.reader() for it`
+            );
+        }
+        return new AMFRawExternalizable('', decoder.readByte(length, true) as Uint8Array);
+    }
+
+    /**
+     * 创建按已知结构确定长度的读取器
+     *
+     * skip 按类的结构读取（或跳过）外部化数据，读取的结果被丢弃，读过的字节作为原始字节保留。
+     * 与 read 不同，skip 中解码的值会正常进入引用表，之后的数据中指向它们的引用仍然有效；
+     * 编码时这些引用也会加入编码器的引用表，之后写入的引用索引与原数据一致。
+     *
+     * @param skip - 按结构读取外部化数据的函数
+     * @returns 外部化类型读取器
+     */
+    static reader(skip: (decoder: AMFDecoder) => void): ExternalizableReader {
+        return {
+            read(decoder: AMFDecoder): AMFRawExternalizable {
+                const start = decoder.getPosition();
+                const snapshot = decoder.saveReferences();
+                skip(decoder);
+                const end = decoder.getPosition();
+                decoder.setPosition(start);
+                const bytes = decoder.readByte(end - start, true) as Uint8Array;
+                return new AMFRawExternalizable('', bytes, decoder.sliceReferences(snapshot));
+            }
+        };
+    }
+}
+
+/**
+ * 判断一个值是否应按可外部化对象编码
+ *
+ * @param value - 要判断的值
+ * @returns 是 Externalizable 实例或 __externalizable 为 true 时返回 true
+ */
+export function isExternalizable(value: any): boolean {
+    return value instanceof Externalizable
+        || (value instanceof Serializable && value.__externalizable === true);
+}
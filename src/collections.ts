@@ -0,0 +1,98 @@
+/**
+ * Flex 集合类模块
+ *
+ * 内置 BlazeDS / LCDS 常用的可外部化集合类：
+ * ArrayCollection、ArrayList 和 ObjectProxy。
+ * 它们的外部化格式都只是写入一个被包装的值（数组或对象）。
+ */
+
+import { Externalizable } from './classes';
+import type { AMFEncoder } from './encoder';
+import type { AMFDecoder } from './decoder';
+
+/**
+ * flex.messaging.io.ArrayCollection（mx.collections.ArrayCollection）
+ *
+ * @example
+ * ```typescript
+ * encoder.writeObject(new ArrayCollection([1, 2, 3]));
+ * ```
+ */
+export class ArrayCollection<T = any> extends Externalizable {
+    /** 被包装的数组 */
+    public source: T[];
+
+    /**
+     * @param source - 被包装的数组
+     */
+    constructor(source: T[] = []) {
+        super('flex.messaging.io.ArrayCollection');
+        this.source = source;
+    }
+
+    write(encoder: AMFEncoder): void {
+        encoder.writeObject(this.source);
+    }
+
+    static read(decoder: AMFDecoder): ArrayCollection {
+        return new ArrayCollection(toArray(decoder.decode()));
+    }
+}
+
+/**
+ * flex.messaging.io.ArrayList（mx.collections.ArrayList）
+ */
+export class ArrayList<T = any> extends Externalizable {
+    /** 被包装的数组 */
+    public source: T[];
+
+    /**
+     * @param source - 被包装的数组
+     */
+    constructor(source: T[] = []) {
+        super('flex.messaging.io.ArrayList');
+        this.source = source;
+    }
+
+    write(encoder: AMFEncoder): void {
+        encoder.writeObject(this.source);
+    }
+
+    static read(decoder: AMFDecoder): ArrayList {
+        return new ArrayList(toArray(decoder.decode()));
+    }
+}
+
+/**
+ * flex.messaging.io.ObjectProxy（mx.utils.ObjectProxy）
+ */
+export class ObjectProxy<T extends Record<string, any> = Record<string, any>> extends Externalizable {
+    /** 被包装的对象 */
+    public object: T;
+
+    /**
+     * @param object - 被包装的对象
+     */
+    constructor(object: T = {} as T) {
+        super('flex.messaging.io.ObjectProxy');
+        this.object = object;
+    }
+
+    write(encoder: AMFEncoder): void {
+        encoder.writeObject(this.object);
+    }
+
+    static read(decoder: AMFDecoder): ObjectProxy {
+        return new ObjectProxy(decoder.decode() ?? {});
+    }
+}
+
+/**
+ * 把解码出的集合内容转换为数组（null 视为空数组）
+ */
+function toArray(value: any): any[] {
+    if (value === null || value === undefined) {
+        return [];
+    }
+    return Array.isArray(value) ? value : Object.values(value);
+}
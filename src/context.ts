@@ -0,0 +1,177 @@
+/**
+ * AMF 上下文模块
+ *
+ * 上下文保存外部化类型读取器、类别名注册表和编解码选项，
+ * 可以传给 AMFEncoder / AMFDecoder 的构造函数，
+ * 使同一进程中的多个服务各自拥有独立的注册表，互不干扰。
+ * 未传入上下文时使用全局默认上下文（AMFDecoder.register / registerClassAlias 写入的就是它）。
+ */
+
+import { AMFClassRegistry, ClassConstructor } from './registry';
+import { ArrayCollection, ArrayList, ObjectProxy } from './collections';
+import {
+    AcknowledgeMessage,
+    AcknowledgeMessageExt,
+    AsyncMessage,
+    AsyncMessageExt,
+    CommandMessage,
+    CommandMessageExt,
+    ErrorMessage,
+    RemotingMessage
+} from './messaging';
+import type { AMFDecoder, AMFDecoderOptions } from './decoder';
+import type { AMFEncoderOptions } from './encoder';
+
+/**
+ * 可外部化对象静态读取接口
+ */
+export interface ExternalizableReader {
+    read(decoder: AMFDecoder): any;
+}
+
+/**
+ * 判断通过类别名注册的类是否带有静态 read 方法（可以直接作为外部化类型读取器）
+ */
+function isExternalizableReader(cls: ClassConstructor): cls is ClassConstructor & ExternalizableReader {
+    return typeof (cls as { read?: unknown }).read === 'function';
+}
+
+/**
+ * 内置外部化类型，可以被上下文中注册的同名类型覆盖
+ */
+const builtinExternalizables: Record<string, ExternalizableReader> = {
+    'flex.messaging.io.ArrayCollection': ArrayCollection,
+    'mx.collections.ArrayCollection': ArrayCollection,
+    'flex.messaging.io.ArrayList': ArrayList,
+    'mx.collections.ArrayList': ArrayList,
+    'flex.messaging.io.ObjectProxy': ObjectProxy,
+    'mx.utils.ObjectProxy': ObjectProxy,
+    'DSK': AcknowledgeMessageExt,
+    'DSA': AsyncMessageExt,
+    'DSC': CommandMessageExt
+};
+
+/**
+ * 内置类别名（Flex 消息类），可以被上下文中注册的同名类覆盖
+ */
+const builtinClasses: Record<string, ClassConstructor> = {
+    'flex.messaging.messages.AsyncMessage': AsyncMessage,
+    'flex.messaging.messages.AcknowledgeMessage': AcknowledgeMessage,
+    'flex.messaging.messages.CommandMessage': CommandMessage,
+    'flex.messaging.messages.ErrorMessage': ErrorMessage,
+    'flex.messaging.messages.RemotingMessage': RemotingMessage
+};
+
+/**
+ * 上下文选项（编码器与解码器选项的合集）
+ */
+export type AMFContextOptions = AMFDecoderOptions & AMFEncoderOptions;
+
+/**
+ * AMF 上下文
+ *
+ * @example
+ * ```typescript
+ * const context = new AMFContext({ unknownClassPolicy: 'error' });
+ * context.registerClassAlias('com.example.User', User);
+ * context.registerExternalizable('com.example.Custom', Custom);
+ *
+ * const decoder = new AMFDecoder(bytes, context);
+ * const encoder = new AMFEncoder(context);
+ * ```
+ */
+export class AMFContext {
+    /** 全局默认上下文 */
+    static defaultContext: AMFContext = new AMFContext({}, AMFClassRegistry.defaultRegistry);
+
+    /** 外部化类型注册表 */
+    public externalizables: Record<string, ExternalizableReader>;
+
+    /** 类别名注册表 */
+    public classes: AMFClassRegistry;
+
+    /** 编解码选项 */
+    public options: AMFContextOptions;
+
+    /**
+     * 创建一个上下文
+     *
+     * @param options - 编解码选项
+     * @param classes - 类别名注册表，默认新建一个空注册表
+     * @param externalizables - 外部化类型注册表，默认为空
+     */
+    constructor(
+        options: AMFContextOptions = {},
+        classes: AMFClassRegistry = new AMFClassRegistry(),
+        externalizables: Record<string, ExternalizableReader> = {}
+    ) {
+        this.options = options;
+        this.classes = classes;
+        this.externalizables = externalizables;
+    }
+
+    /**
+     * 注册外部化类型
+     *
+     * @param className - AMF 中的类名
+     * @param cls - 带有静态 read 方法的类
+     */
+    registerExternalizable(className: string, cls: ExternalizableReader): void {
+        this.externalizables[className] = cls;
+    }
+
+    /**
+     * 注册类别名
+     *
+     * @param alias - AMF 中的类名
+     * @param cls - 对应的类
+     */
+    registerClassAlias(alias: string, cls: ClassConstructor): void {
+        this.classes.register(alias, cls);
+    }
+
+    /**
+     * 根据别名查找类
+     *
+     * 优先使用上下文中注册的类别名，其次使用内置类（Flex 消息类）
+     *
+     * @param alias - AMF 中的类名
+     * @returns 类，未注册时返回 undefined
+     */
+    getClass(alias: string): ClassConstructor | undefined {
+        const cls = this.classes.getClass(alias);
+        if (cls) {
+            return cls;
+        }
+        if (Object.prototype.hasOwnProperty.call(builtinClasses, alias)) {
+            return builtinClasses[alias];
+        }
+        return undefined;
+    }
+
+    /**
+     * 查找外部化类型读取器
+     *
+     * 优先使用 registerExternalizable 注册的读取器，
+     * 其次使用通过类别名注册、且带有静态 read 方法的类，
+     * 最后使用内置类型（Flex 集合类和紧凑形式的消息类）
+     *
+     * @param className - AMF 中的类名
+     * @returns 读取器，未注册时返回 undefined
+     */
+    getExternalizable(className: string): ExternalizableReader | undefined {
+        if (Object.prototype.hasOwnProperty.call(this.externalizables, className)) {
+            return this.externalizables[className];
+        }
+        const cls = this.classes.getClass(className);
+        if (cls && isExternalizableReader(cls)) {
+            return cls;
+        }
+        if (Object.prototype.hasOwnProperty.call(builtinExternalizables, className)) {
+            return builtinExternalizables[className];
+        }
+        return undefined;
+    }
+}
+
+export default AMFContext;
@@ -5,23 +5,180 @@
  * 全部基于浏览器可用的 Uint8Array / TextDecoder。
  */
 
-import { AMFType } from './types';
-import { AMFTrait, Serializable } from './classes';
+import { AMF3, AMFType } from './types';
+import { AMFDictionary, AMFPlaceholder, AMFTrait, AMFVector, AMFXml, AMFXmlDocument, Externalizable, Serializable } from './classes';
+import { ArrayCollection, ArrayList, ObjectProxy } from './collections';
 import { Reader } from './reader';
+import { UnknownClassPolicy } from './registry';
+import { AMFContext, ExternalizableReader } from './context';
+import {
+    AMFError,
+    AMFErrorCode,
+    AMFLimitError,
+    AMFDecoderLimitName,
+    AMFInvalidReferenceError,
+    AMFPathSegment,
+    AMFReferenceTable,
+    AMFUnknownTypeError,
+    AMFUnregisteredClassError,
+    withPathSegment
+} from './errors';
 
 /**
- * 可外部化对象静态读取接口
+ * 解码器选项
  */
-interface ExternalizableReader {
-    read(decoder: AMFDecoder): any;
+export interface AMFDecoderOptions {
+    /**
+     * 为 true 时 Dictionary 解码为普通对象（键为 JSON.stringify 后的字符串），
+     * 默认解码为 AMFDictionary（Map）
+     */
+    dictionaryAsObject?: boolean;
+
+    /**
+     * 类名未通过 registerClassAlias 注册时的处理策略，默认 'serializable'
+     */
+    unknownClassPolicy?: UnknownClassPolicy;
+
+    /**
+     * 为 true 时 ArrayCollection / ArrayList 解码为普通数组，ObjectProxy 解码为被包装的对象，
+     * 默认保留包装类以便原样编码回去
+     */
+    unwrapCollections?: boolean;
+
+    /**
+     * 为 true 时 ByteArray 解码为输入数据的视图（subarray），不复制字节；
+     * 视图与输入数据共享内存，输入数据之后被修改或复用时不要开启
+     */
+    zeroCopy?: boolean;
+
+    /**
+     * 解码资源限制，处理不可信数据时使用，默认不限制
+     */
+    limits?: AMFDecoderLimits;
+
+    /**
+     * 遇到未注册的外部化类型时使用的读取器，默认抛出 AMFUnregisteredClassError
+     * 例如 AMFRawExternalizable 把顶层值剩余的数据作为原始字节保留，编码时原样写回（只适用于用 decode 解码的顶层对象本身）
+     */
+    unknownExternalizable?: ExternalizableReader;
+}
+
+/**
+ * 解码资源限制
+ *
+ * 超出限制时在分配内存之前抛出 AMFLimitError
+ */
+export interface AMFDecoderLimits {
+    /** 值的最大嵌套深度 */
+    maxDepth?: number;
+
+    /** 数组、向量、字典的最大元素数，以及对象的最大动态属性数 */
+    maxCollectionLength?: number;
+
+    /** 字符串（包括 XML）的最大字节数 */
+    maxStringLength?: number;
+
+    /** ByteArray 的最大字节数 */
+    maxByteArrayLength?: number;
+
+    /** 每个顶层值中最多包含的对象（对象、数组、日期、ByteArray 等引用类型）数量，每个顶层值重新计数 */
+    maxObjects?: number;
+
+    /**
+     * 整个输入中最多包含的对象数量，不随顶层值重新计数：
+     * 同一个解码器解码的所有值（数据包的所有 header/body、SOL 文件的所有属性、流式解码器的整个流）合计
+     */
+    maxTotalObjects?: number;
+
+    /** 每个 Trait 的最大静态字段数 */
+    maxTraitFields?: number;
+}
+
+/**
+ * 一段数据中新加入 AMF3 引用表的内容
+ */
+export interface AMFReferences {
+    /** 字符串 */
+    strings: string[];
+
+    /** 对象 */
+    objects: any[];
+
+    /** Trait */
+    traits: AMFTrait[];
+}
+
+/**
+ * 解码观察者，按解码顺序收到每个值的开始和结束
+ */
+export interface AMFDecodeObserver {
+    /**
+     * 开始解码一个值（类型标记已读取）
+     *
+     * @param marker - 类型标记
+     * @param offset - 类型标记所在的位置
+     * @param version - 类型标记所属的 AMF 版本（0 或 3）
+     */
+    enter(marker: number, offset: number, version: number): void;
+
+    /**
+     * 接下来解码的值在容器中的键或下标
+     *
+     * @param segment - 键或下标
+     */
+    key(segment: AMFPathSegment): void;
+
+    /**
+     * 读取到当前对象的 Trait
+     *
+     * @param trait - Trait
+     * @param index - Trait 在引用表中的索引
+     * @param inline - 是否在数据中完整写出（否则为 Trait 引用）
+     */
+    trait(trait: AMFTrait, index: number, inline: boolean): void;
+
+    /**
+     * 值解码完成（出错时不会调用）
+     *
+     * @param value - 解码出的值
+     * @param offset - 值结束的位置
+     */
+    exit(value: any, offset: number): void;
+}
+
+/**
+ * 宽松解码的结果
+ */
+export interface AMFLenientResult {
+    /** 解码出的值，无法解码的部分为 AMFPlaceholder，数据中断时为已经解码出的部分 */
+    value: any;
+
+    /** 解码过程中遇到的错误，按出现的顺序排列 */
+    diagnostics: AMFError[];
+
+    /** 是否读完了整个值（为 false 时之后的数据被放弃） */
+    complete: boolean;
+}
+
+/**
+ * 取出 Flex 集合类包装的数组或对象，其他值原样返回
+ */
+function unwrapCollection(value: any): any {
+    if (value instanceof ArrayCollection || value instanceof ArrayList) {
+        return value.source;
+    }
+    if (value instanceof ObjectProxy) {
+        return value.object;
+    }
+    return value;
 }
 
 /**
  * AMF3 解码器
  */
 export class AMFDecoder extends Reader {
-    /** AMF3 外部化对象注册表 */
-    static amf3Externalizables: Record<string, ExternalizableReader> = {};
+    /** AMF3 外部化对象注册表（即全局默认上下文的注册表） */
+    static amf3Externalizables: Record<string, ExternalizableReader> = AMFContext.defaultContext.externalizables;
 
     /** AMF3 字符串引用表 */
     private amf3StringReferences: string[];
@@ -32,26 +189,426 @@ export class AMFDecoder extends Reader {
     /** AMF3 Trait 引用表 */
     private amf3TraitReferences: AMFTrait[];
 
+    /** 当前嵌套深度 */
+    protected depth: number;
+
+    /** 当前顶层值中已创建的对象数量 */
+    protected objectCount: number;
+
+    /** 解码器创建以来已创建的对象数量 */
+    protected totalObjectCount: number;
+
+    /** 当前顶层值的数据结束位置（外部化对象作为原始字节捕获时到此为止），未知时为 null */
+    private valueEnd: number | null;
+
+    /** decodeValue 为下一个顶层值指定的结束位置，直接调用 decode 时为 undefined（值延伸到数据末尾） */
+    private nextValueEnd: number | null | undefined;
+
+    /** 正在读取的外部化对象的类名 */
+    private externalizableName: string;
+
+    /** 宽松解码时收集的错误，不在宽松解码中时为 null */
+    protected diagnostics: AMFError[] | null;
+
+    /** 宽松解码时当前值在对象图中的路径 */
+    private recoveryPath: AMFPathSegment[];
+
+    /** 宽松解码是否已经放弃之后的数据 */
+    private aborted: boolean;
+
+    /** 解码观察者，没有时为 null */
+    protected observer: AMFDecodeObserver | null;
+
+    /** 上下文（外部化类型、类别名注册表） */
+    protected context: AMFContext;
+
+    /** 解码器选项 */
+    protected options: AMFDecoderOptions;
+
     /**
-     * 注册外部化类型
+     * 在全局默认上下文中注册外部化类型
      */
     static register(className: string, cls: ExternalizableReader): void {
         this.amf3Externalizables[className] = cls;
     }
 
-    constructor(data: Uint8Array) {
+    /**
+     * @param data - 要解码的数据
+     * @param context - 上下文或解码器选项；传入选项时使用全局默认上下文的注册表
+     */
+    constructor(data: Uint8Array, context: AMFContext | AMFDecoderOptions = AMFContext.defaultContext) {
         super(data);
+        if (context instanceof AMFContext) {
+            this.context = context;
+            this.options = context.options;
+        } else {
+            this.context = AMFContext.defaultContext;
+            this.options = context;
+        }
+        this.zeroCopy = this.options.zeroCopy === true;
+        this.depth = 0;
+        this.objectCount = 0;
+        this.totalObjectCount = 0;
+        this.valueEnd = null;
+        this.nextValueEnd = undefined;
+        this.externalizableName = '';
+        this.diagnostics = null;
+        this.recoveryPath = [];
+        this.aborted = false;
+        this.observer = null;
         this.amf3StringReferences = [];
         this.amf3ObjectReferences = [];
         this.amf3TraitReferences = [];
     }
 
+    /**
+     * 清空引用表
+     *
+     * AMF 数据包中每个 header/body 都使用独立的引用表
+     */
+    resetReferences(): void {
+        this.amf3StringReferences = [];
+        this.amf3ObjectReferences = [];
+        this.amf3TraitReferences = [];
+    }
+
+    /**
+     * 记录引用表当前的长度和已创建的对象数量，配合 restoreReferences 撤销解码到一半的值留下的引用
+     *
+     * @returns 引用表快照
+     */
+    saveReferences(): number[] {
+        return [
+            this.amf3StringReferences.length,
+            this.amf3ObjectReferences.length,
+            this.amf3TraitReferences.length,
+            this.totalObjectCount
+        ];
+    }
+
+    /**
+     * 把引用表和已创建的对象数量恢复到 saveReferences 时的状态
+     *
+     * @param snapshot - saveReferences 返回的快照
+     */
+    restoreReferences(snapshot: number[]): void {
+        this.amf3StringReferences.length = snapshot[0];
+        this.amf3ObjectReferences.length = snapshot[1];
+        this.amf3TraitReferences.length = snapshot[2];
+        this.totalObjectCount = snapshot[3];
+    }
+
+    /**
+     * 获取 saveReferences 之后新加入 AMF3 引用表的内容
+     *
+     * @param snapshot - saveReferences 返回的快照
+     * @returns 新加入的字符串、对象和 Trait
+     */
+    sliceReferences(snapshot: number[]): AMFReferences {
+        return {
+            strings: this.amf3StringReferences.slice(snapshot[0]),
+            objects: this.amf3ObjectReferences.slice(snapshot[1]),
+            traits: this.amf3TraitReferences.slice(snapshot[2])
+        };
+    }
+
+    /**
+     * 当前正在解码的值是否为顶层值（在外部化类型的 read 中调用时指外部化对象本身）
+     *
+     * @returns 是顶层值时返回 true
+     */
+    isTopLevelValue(): boolean {
+        return this.depth === 1;
+    }
+
+    /**
+     * 获取当前顶层值在当前位置之后的字节数（外部化对象作为原始字节捕获时使用）
+     *
+     * @returns 字节数；当前值不是顶层值或不知道顶层值在哪里结束时为 null，值延伸到流中尚未到达的数据时为 Infinity
+     */
+    getValueBytesRemaining(): number | null {
+        if (!this.isTopLevelValue() || this.valueEnd === null) {
+            return null;
+        }
+        return this.valueEnd - this.getPosition();
+    }
+
+    /**
+     * 获取正在读取的外部化对象的类名（在外部化类型的 read 中调用）
+     *
+     * @returns AMF 中的类名
+     */
+    getExternalizableName(): string {
+        return this.externalizableName;
+    }
+
+    /**
+     * 获取 AMF3 字符串引用表中的字符串
+     *
+     * @param index - 引用索引
+     * @returns 字符串，索引超出引用表时为 undefined
+     */
+    getStringReference(index: number): string | undefined {
+        return this.amf3StringReferences[index];
+    }
+
     /**
      * 解码一个 AMF3 值
      */
     decode(): any {
         const typeId = this.readUInt8();
-        return this.readByTypeId(typeId);
+        const refCount = this.amf3ObjectReferences.length;
+        this.enterValue();
+        if (this.observer !== null) {
+            this.observer.enter(typeId, this.getPosition() - 1, 3);
+        }
+        let value: any;
+        try {
+            value = this.readByTypeId(typeId);
+        } catch (e) {
+            if (!(e instanceof AMFError)) {
+                throw e;
+            }
+            e.setMarker(typeId);
+            if (this.diagnostics === null) {
+                throw e;
+            }
+            value = this.recoverFrom(e, this.amf3ObjectReferences.length > refCount ? this.amf3ObjectReferences[refCount] : undefined);
+        } finally {
+            this.depth--;
+        }
+        if (this.observer !== null) {
+            this.observer.exit(value, this.getPosition());
+        }
+        return value;
+    }
+
+    /**
+     * 解码一个顶层值，并指定它的数据在哪里结束
+     *
+     * decode 和 decodeExact 认为值延伸到数据末尾；一段数据中有多个值时用这个方法解码，
+     * 数据格式带有值的长度时（如 AMF 数据包的 body）传入结束位置，否则传入 null，
+     * 此时未注册的外部化对象不会把之后的值作为原始字节捕获
+     *
+     * @param end - 值的数据结束位置，未知时为 null，值延伸到流中尚未到达的数据时为 Infinity
+     * @returns 解码出的值
+     */
+    decodeValue(end: number | null): any {
+        this.nextValueEnd = end;
+        try {
+            return this.decode();
+        } finally {
+            this.nextValueEnd = undefined;
+        }
+    }
+
+    /**
+     * 设置解码观察者（inspect 用它记录每个值的字节范围），传入 null 取消
+     *
+     * @param observer - 解码观察者
+     */
+    setObserver(observer: AMFDecodeObserver | null): void {
+        this.observer = observer;
+    }
+
+    /**
+     * 宽松解码一个值：无法解码的部分用 AMFPlaceholder 代替，数据中断时返回已经解码出的部分
+     *
+     * 引用无效时用占位对象代替并继续解码；类型标记未知、外部化类型未注册、数据不完整等
+     * 无法确定之后数据位置的错误会放弃剩余数据，已经创建的对象和数组保留已读出的内容。
+     * 未注册的类别名在 unknownClassPolicy 为 error 时按 Serializable 解码。
+     *
+     * @returns 值、错误列表以及是否完整
+     */
+    decodeLenient(): AMFLenientResult {
+        const diagnostics: AMFError[] = [];
+        this.diagnostics = diagnostics;
+        this.recoveryPath = [];
+        this.aborted = false;
+        let value: any;
+        try {
+            value = this.decode();
+        } catch (e) {
+            if (!(e instanceof AMFError)) {
+                throw e;
+            }
+            value = this.recoverFrom(e, undefined);
+        } finally {
+            this.diagnostics = null;
+        }
+        return { value, diagnostics, complete: !this.aborted };
+    }
+
+    /**
+     * 宽松解码时记录错误
+     *
+     * @param error - 遇到的错误
+     * @returns 是否处于宽松解码中（为 false 时调用方应抛出错误）
+     */
+    protected addDiagnostic(error: AMFError): boolean {
+        if (this.diagnostics === null) {
+            return false;
+        }
+        if (!this.aborted) {
+            for (let i = this.recoveryPath.length - 1; i >= 0; i--) {
+                error.prependPath(this.recoveryPath[i]);
+            }
+            this.diagnostics.push(error);
+        }
+        return true;
+    }
+
+    /**
+     * 宽松解码时从错误中恢复
+     *
+     * @param error - 遇到的错误
+     * @param partial - 出错的值已经创建的对象或数组（没有时为 undefined）
+     * @returns 代替出错的值的结果
+     */
+    protected recoverFrom(error: AMFError, partial: any): any {
+        this.addDiagnostic(error);
+        const resumable = partial === undefined
+            && error instanceof AMFInvalidReferenceError
+            && error.table !== 'trait';
+        if (!resumable) {
+            // 之后的数据位置无法确定：跳到末尾，外层容器的读取随之中断并返回已读出的部分
+            this.aborted = true;
+            this.setPosition(this.data.length);
+        }
+        return partial !== undefined && partial !== null ? partial : new AMFPlaceholder(error);
+    }
+
+    /**
+     * 解码容器中的一个元素，出错时把元素的键或下标加入错误路径
+     *
+     * @param segment - 元素在容器中的键或下标
+     */
+    protected decodeAt(segment: AMFPathSegment): any {
+        if (this.observer !== null) {
+            this.observer.key(segment);
+        }
+        if (this.diagnostics !== null) {
+            this.recoveryPath.push(segment);
+            try {
+                return this.decode();
+            } finally {
+                this.recoveryPath.pop();
+            }
+        }
+        try {
+            return this.decode();
+        } catch (e) {
+            throw withPathSegment(e, segment);
+        }
+    }
+
+    /**
+     * 创建引用无效的错误
+     *
+     * @param table - 引用表
+     * @param index - 引用索引
+     */
+    protected invalidReference(table: AMFReferenceTable, index: number): AMFInvalidReferenceError {
+        const size = table === 'string'
+            ? this.amf3StringReferences.length
+            : table === 'trait' ? this.amf3TraitReferences.length : this.amf3ObjectReferences.length;
+        return new AMFInvalidReferenceError(table, index, size, this.getPosition());
+    }
+
+    /**
+     * 进入一个值：检查嵌套深度，顶层值开始时重新计数对象（离开时调用方负责 depth--）
+     */
+    protected enterValue(): void {
+        if (this.depth === 0) {
+            this.objectCount = 0;
+            this.valueEnd = this.nextValueEnd === undefined ? this.data.length : this.nextValueEnd;
+        }
+        this.checkLimit('maxDepth', this.depth + 1);
+        this.depth++;
+    }
+
+    /**
+     * 检查数据中的长度或数量是否超出限制
+     *
+     * @param limit - 限制名称
+     * @param value - 数据中的实际值
+     * @throws AMFLimitError 超出限制时
+     */
+    protected checkLimit(limit: AMFDecoderLimitName, value: number): void {
+        const max = this.options.limits?.[limit];
+        if (max !== undefined && value > max) {
+            throw new AMFLimitError(limit, value, max, this.getPosition());
+        }
+    }
+
+    /**
+     * 记录新创建的对象并检查当前顶层值和整个输入的对象数量限制
+     */
+    protected countObject(): void {
+        this.objectCount++;
+        this.totalObjectCount++;
+        this.checkLimit('maxObjects', this.objectCount);
+        this.checkLimit('maxTotalObjects', this.totalObjectCount);
+    }
+
+    /**
+     * 读取指定字节长度的字符串，先检查字符串长度限制
+     *
+     * @param length - 字符串的字节长度
+     */
+    protected readLimitedString(length: number): string {
+        this.checkLimit('maxStringLength', length);
+        return this.readUTF8String(length);
+    }
+
+    /**
+     * 依次解码剩余数据中的所有顶层值（各个值共用引用表）
+     *
+     * 不知道各个值在哪里结束，未注册的外部化对象不能作为原始字节捕获
+     *
+     * @returns 解码出的值
+     */
+    decodeAll(): any[] {
+        const values: any[] = [];
+        while (this.getBytesAvailable() > 0) {
+            values.push(this.decodeValue(null));
+        }
+        return values;
+    }
+
+    /**
+     * 逐个解码剩余数据中的顶层值（各个值共用引用表）
+     *
+     * @example
+     * ```typescript
+     * for (const value of new AMFDecoder(bytes)) {
+     *     console.log(value);
+     * }
+     * ```
+     */
+    *values(): Generator<any, void, undefined> {
+        while (this.getBytesAvailable() > 0) {
+            yield this.decodeValue(null);
+        }
+    }
+
+    [Symbol.iterator](): Generator<any, void, undefined> {
+        return this.values();
+    }
+
+    /**
+     * 解码一个值，并要求它恰好用完剩余数据
+     *
+     * @returns 解码出的值
+     * @throws AMFError 如果解码后仍有剩余字节（错误码 AMF_TRAILING_DATA）
+     */
+    decodeExact(): any {
+        const value = this.decode();
+        const remaining = this.getBytesAvailable();
+        if (remaining > 0) {
+            throw new AMFError(AMFErrorCode.TRAILING_DATA, `${remaining} bytes remaining after decoded value`, this.getPosition());
+        }
+        return value;
     }
 
     /**
@@ -83,12 +640,16 @@ export class AMFDecoder extends Reader {
                 return this.readDoubleBE();
             case 0x06: // STRING
                 return this.readAMF3String();
+            case 0x07: // XML_DOC
+                return this.readAMF3Xml(false);
             case 0x08: // DATE
                 return this.readAMF3Date();
             case 0x09: // ARRAY
                 return this.readAMF3Array();
             case 0x0A: // OBJECT
                 return this.readAMF3Object();
+            case 0x0B: // XML
+                return this.readAMF3Xml(true);
             case 0x0C: // BYTE_ARRAY
                 return this.readAMF3ByteArray();
             case 0x0D: // VECTOR_INT
@@ -102,21 +663,21 @@ export class AMFDecoder extends Reader {
             case 0x11: // DICTIONARY
                 return this.readAMF3Dictionary();
             default:
-                throw new Error('当前 AMF3 解码器暂不支持类型 ID: ' + typeId);
+                throw new AMFUnknownTypeError(3, typeId, this.getPosition() - 1);
         }
     }
 
     /**
-     * 读取 AMF3 字符串
+     * 读取 AMF3 字符串（UTF-8-vr，无类型标记），使用解码器的字符串引用表
      * 
      * todo 字符串过长时可能有bug?  当前读长读，用的是u29的方式
      */
-    private readAMF3String(): string {
+    readAMF3String(): string {
         const header = this.readAMFHeader();
         if (!header.isDef) {
             const ref = this.amf3StringReferences[header.value];
             if (typeof ref !== 'string') {
-                throw new Error('无效的 AMF3 字符串引用');
+                throw this.invalidReference('string', header.value);
             }
             return ref;
         }
@@ -125,7 +686,7 @@ export class AMFDecoder extends Reader {
             return '';
         }
 
-        const value = this.readUTF8String(header.value);
+        const value = this.readLimitedString(header.value);
         this.amf3StringReferences.push(value);
         return value;
     }
@@ -138,16 +699,39 @@ export class AMFDecoder extends Reader {
         if (!header.isDef) {
             const ref = this.amf3ObjectReferences[header.value];
             if (!(ref instanceof Date)) {
-                throw new Error('无效的 AMF3 日期引用');
+                throw this.invalidReference('object', header.value);
             }
             return ref;
         }
 
+        this.countObject();
         const value = new Date(this.readDoubleBE());
         this.amf3ObjectReferences.push(value);
         return value;
     }
 
+    /**
+     * 读取 AMF3 XML（E4X）或 XMLDocument
+     *
+     * @param e4x - true 表示 XML (0x0B)，false 表示 XMLDocument (0x07)
+     */
+    private readAMF3Xml(e4x: boolean): AMFXml | AMFXmlDocument {
+        const header = this.readAMFHeader();
+        if (!header.isDef) {
+            const ref = this.amf3ObjectReferences[header.value];
+            if (!(ref instanceof AMFXml) && !(ref instanceof AMFXmlDocument)) {
+                throw this.invalidReference('object', header.value);
+            }
+            return ref;
+        }
+
+        this.countObject();
+        const text = this.readLimitedString(header.value);
+        const value = e4x ? new AMFXml(text) : new AMFXmlDocument(text);
+        this.amf3ObjectReferences.push(value);
+        return value;
+    }
+
     /**
      * 读取 AMF3 数组
      */
@@ -156,21 +740,25 @@ export class AMFDecoder extends Reader {
         if (!header.isDef) {
             const ref = this.amf3ObjectReferences[header.value];
             if (!ref) {
-                throw new Error('无效的 AMF3 数组引用');
+                throw this.invalidReference('object', header.value);
             }
             return ref;
         }
 
+        this.checkLimit('maxCollectionLength', header.value);
+        this.countObject();
         const named: Record<string, any> = {};
         this.amf3ObjectReferences.push(named);
         const idx = this.amf3ObjectReferences.length - 1;
 
+        let namedCount = 0;
         while (true) {
             const key = this.readAMF3String();
             if (key === '') {
                 break;
             }
-            named[key] = this.decode();
+            this.checkLimit('maxCollectionLength', ++namedCount);
+            named[key] = this.decodeAt(key);
         }
 
         if (Object.keys(named).length > 0) {
@@ -181,7 +769,7 @@ export class AMFDecoder extends Reader {
         const dense: any[] = [];
         this.amf3ObjectReferences[idx] = dense;
         for (let i = 0; i < header.value; i++) {
-            dense.push(this.decode());
+            dense.push(this.decodeAt(i));
         }
         return dense;
     }
@@ -193,7 +781,10 @@ export class AMFDecoder extends Reader {
         if ((flags & 1) === 0) {
             const trait = this.amf3TraitReferences[flags >> 1];
             if (!trait) {
-                throw new Error('无效的 AMF3 Trait 引用');
+                throw this.invalidReference('trait', flags >> 1);
+            }
+            if (this.observer !== null) {
+                this.observer.trait(trait, flags >> 1, false);
             }
             return trait;
         }
@@ -202,6 +793,7 @@ export class AMFDecoder extends Reader {
         const isExternalizable = ((flags >> 1) & 1) === 1;
         const isDynamic = ((flags >> 2) & 1) === 1;
         const staticKeyLen = flags >> 3;
+        this.checkLimit('maxTraitFields', staticKeyLen);
 
         const trait = new AMFTrait(name, isDynamic, isExternalizable);
         for (let i = 0; i < staticKeyLen; i++) {
@@ -209,9 +801,51 @@ export class AMFDecoder extends Reader {
         }
 
         this.amf3TraitReferences.push(trait);
+        if (this.observer !== null) {
+            this.observer.trait(trait, this.amf3TraitReferences.length - 1, true);
+        }
         return trait;
     }
 
+    /**
+     * 创建类型化对象
+     *
+     * 类名已在上下文中注册时实例化对应的类，
+     * 否则按 unknownClassPolicy 处理；匿名对象始终为 Serializable
+     *
+     * @param className - AMF 中的类名
+     * @param dynamic - 是否为动态对象
+     */
+    protected createTypedObject(className: string, dynamic: boolean): Record<string, any> {
+        if (className === '') {
+            return new Serializable('', dynamic);
+        }
+
+        const cls = this.context.getClass(className);
+        if (cls) {
+            const instance = new cls();
+            if (instance instanceof Serializable) {
+                instance.__class = className;
+                instance.__dynamic = dynamic;
+            }
+            return instance;
+        }
+
+        switch (this.options.unknownClassPolicy) {
+            case 'object':
+                return {};
+            case 'error': {
+                const error = new AMFUnregisteredClassError(className, false, this.getPosition());
+                if (!this.addDiagnostic(error)) {
+                    throw error;
+                }
+                return new Serializable(className, dynamic);
+            }
+            default:
+                return new Serializable(className, dynamic);
+        }
+    }
+
     /**
      * 读取 AMF3 对象
      */
@@ -220,46 +854,58 @@ export class AMFDecoder extends Reader {
         if (!header.isDef) {
             const ref = this.amf3ObjectReferences[header.value];
             if (!ref) {
-                throw new Error('无效的 AMF3 对象引用');
+                throw this.invalidReference('object', header.value);
             }
             return ref;
         }
 
         const trait = this.readAMF3ObjectTrait(header.value);
         if (trait.externalizable) {
-            if (trait.name === 'flex.messaging.io.ArrayCollection') {
-                const arr = this.decode();
-                this.amf3ObjectReferences.push(arr);
-                return arr;
-            }
-
-            const ext = AMFDecoder.amf3Externalizables[trait.name];
+            const ext = this.context.getExternalizable(trait.name) ?? this.options.unknownExternalizable;
             if (!ext) {
-                throw new Error('未注册 AMF3 外部化类型: ' + trait.name);
+                throw new AMFUnregisteredClassError(trait.name, true, this.getPosition());
             }
 
-            const extObj = ext.read(this);
-            this.amf3ObjectReferences.push(extObj);
+            // 先占位，保证外部化数据内部的对象引用索引与编码端一致
+            this.countObject();
+            const index = this.amf3ObjectReferences.length;
+            this.amf3ObjectReferences.push(null);
+            const outerName = this.externalizableName;
+            this.externalizableName = trait.name;
+            let extObj: any;
+            try {
+                extObj = ext.read(this);
+            } finally {
+                this.externalizableName = outerName;
+            }
+            if (extObj instanceof Externalizable) {
+                extObj.__class = trait.name;
+            }
+            if (this.options.unwrapCollections) {
+                extObj = unwrapCollection(extObj);
+            }
+            this.amf3ObjectReferences[index] = extObj;
             return extObj;
         }
 
-        // 处理普通对象（可能带类名）  ;
-        const result = new Serializable(
-            trait.name, trait.dynamic
-        ) as Record<string, any>;
+        // 处理普通对象（可能带类名）
+        this.countObject();
+        const result = this.createTypedObject(trait.name, trait.dynamic);
         this.amf3ObjectReferences.push(result);
         for (let i = 0; i < trait.staticFields.length; i++) {
             const field = trait.staticFields[i];
-            result[field] = this.decode();
+            result[field] = this.decodeAt(field);
         }
 
         if (trait.dynamic) {
+            let dynamicCount = 0;
             while (true) {
                 const key = this.readAMF3String();
                 if (key === '') {
                     break;
                 }
-                result[key] = this.decode();
+                this.checkLimit('maxCollectionLength', ++dynamicCount);
+                result[key] = this.decodeAt(key);
             }
         }
 
@@ -274,11 +920,13 @@ export class AMFDecoder extends Reader {
         if (!header.isDef) {
             const ref = this.amf3ObjectReferences[header.value];
             if (!(ref instanceof Uint8Array)) {
-                throw new Error('无效的 AMF3 ByteArray 引用');
+                throw this.invalidReference('object', header.value);
             }
             return ref;
         }
 
+        this.checkLimit('maxByteArrayLength', header.value);
+        this.countObject();
         const bytes = this.readByte(header.value, true) as Uint8Array;
         this.amf3ObjectReferences.push(bytes);
         return bytes;
@@ -286,22 +934,41 @@ export class AMFDecoder extends Reader {
 
     /**
      * 向量解码通用逻辑
+     *
+     * 返回 AMFVector，保留 fixed 标记与元素类名，便于再次编码时逐字节一致
+     *
+     * @param type - 向量类型
+     * @param reader - 读取一个数值元素的函数，为 null 时元素是完整的 AMF3 值（VECTOR_OBJECT）
      */
-    private readAMF3Vector<T>(reader: () => T): T[] {
+    private readAMF3Vector<T>(type: AMFType, reader: (() => T) | null): AMFVector<T> {
         const header = this.readAMFHeader();
         if (!header.isDef) {
             const ref = this.amf3ObjectReferences[header.value];
             if (!ref) {
-                throw new Error('无效的 AMF3 向量引用');
+                throw this.invalidReference('object', header.value);
             }
-            return ref as T[];
+            return ref as AMFVector<T>;
         }
 
-        this.readUInt8(); // fixed 标记
-        const result: T[] = [];
+        this.checkLimit('maxCollectionLength', header.value);
+        this.countObject();
+        const fixed = this.readUInt8() !== 0;
+        const className = type === AMF3.VECTOR_OBJECT ? this.readAMF3String() : '';
+        const result = new AMFVector<T>(type, [], fixed, className);
         this.amf3ObjectReferences.push(result);
         for (let i = 0; i < header.value; i++) {
-            result.push(reader.call(this));
+            if (reader === null) {
+                result.push(this.decodeAt(i));
+                continue;
+            }
+            if (this.observer !== null) {
+                this.observer.key(i);
+            }
+            try {
+                result.push(reader.call(this));
+            } catch (e) {
+                throw withPathSegment(e, i);
+            }
         }
         return result;
     }
@@ -309,8 +976,8 @@ export class AMFDecoder extends Reader {
     /**
      * 读取 VECTOR_INT
      */
-    private readAMF3VectorInt(): number[] {
-        return this.readAMF3Vector<number>(function readInt(this: AMFDecoder): number {
+    private readAMF3VectorInt(): AMFVector<number> {
+        return this.readAMF3Vector<number>(AMF3.VECTOR_INT, function readInt(this: AMFDecoder): number {
             return this.readInt32BE();
         });
     }
@@ -318,8 +985,8 @@ export class AMFDecoder extends Reader {
     /**
      * 读取 VECTOR_UINT
      */
-    private readAMF3VectorUInt(): number[] {
-        return this.readAMF3Vector<number>(function readUInt(this: AMFDecoder): number {
+    private readAMF3VectorUInt(): AMFVector<number> {
+        return this.readAMF3Vector<number>(AMF3.VECTOR_UINT, function readUInt(this: AMFDecoder): number {
             return this.readUInt32BE();
         });
     }
@@ -327,8 +994,8 @@ export class AMFDecoder extends Reader {
     /**
      * 读取 VECTOR_DOUBLE
      */
-    private readAMF3VectorDouble(): number[] {
-        return this.readAMF3Vector<number>(function readDouble(this: AMFDecoder): number {
+    private readAMF3VectorDouble(): AMFVector<number> {
+        return this.readAMF3Vector<number>(AMF3.VECTOR_DOUBLE, function readDouble(this: AMFDecoder): number {
             return this.readDoubleBE();
         });
     }
@@ -336,32 +1003,43 @@ export class AMFDecoder extends Reader {
     /**
      * 读取 VECTOR_OBJECT
      */
-    private readAMF3VectorObject(): any[] {
-        return this.readAMF3Vector<any>(function readObject(this: AMFDecoder): any {
-            return this.decode();
-        });
+    private readAMF3VectorObject(): AMFVector<any> {
+        return this.readAMF3Vector<any>(AMF3.VECTOR_OBJECT, null);
     }
 
     /**
      * 读取 DICTIONARY
+     *
+     * 默认解码为 AMFDictionary，保留对象键的引用一致性与 weakKeys 标记
      */
-    private readAMF3Dictionary(): Record<string, any> {
+    private readAMF3Dictionary(): AMFDictionary | Record<string, any> {
         const header = this.readAMFHeader();
         if (!header.isDef) {
             const ref = this.amf3ObjectReferences[header.value];
             if (!ref) {
-                throw new Error('无效的 AMF3 字典引用');
+                throw this.invalidReference('object', header.value);
             }
             return ref;
         }
 
-        this.readUInt8(); // weakKeys 标记
-        const result: Record<string, any> = {};
-        this.amf3ObjectReferences.push(result);
+        this.checkLimit('maxCollectionLength', header.value);
+        this.countObject();
+        const weakKeys = this.readUInt8() !== 0;
+        if (this.options.dictionaryAsObject) {
+            const result: Record<string, any> = {};
+            this.amf3ObjectReferences.push(result);
+            for (let i = 0; i < header.value; i++) {
+                const key = this.decodeAt(i);
+                result[JSON.stringify(key)] = this.decodeAt(i);
+            }
+            return result;
+        }
 
+        const result = new AMFDictionary(null, weakKeys);
+        this.amf3ObjectReferences.push(result);
         for (let i = 0; i < header.value; i++) {
-            const key = this.decode();
-            result[JSON.stringify(key)] = this.decode();
+            const key = this.decodeAt(i);
+            result.set(key, this.decodeAt(i));
         }
         return result;
     }
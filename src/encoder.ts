@@ -6,13 +6,16 @@
  */
 
 import { AMF3, AMFType } from './types';
-import { Externalizable, ForcedTypeValue } from './classes';
-import { Writer } from './writer';
+import { AMFDictionary, AMFTrait, AMFVector, AMFXml, AMFXmlDocument, Externalizable, ForcedTypeValue, isExternalizable } from './classes';
+import { Writer, getUTF8Length } from './writer';
+import { AMFContext } from './context';
+import type { AMFReferences } from './decoder';
+import { AMFEncodeError, AMFPathSegment, withPathSegment } from './errors';
 
 /**
  * 提取对象可序列化字段名
  */
-function getSerializableKeys(value: Record<string, any>): string[] {
+export function getSerializableKeys(value: Record<string, any>): string[] {
     const keys = typeof value.getSerializableFields === 'function'
         ? value.getSerializableFields()
         : Object.keys(value);
@@ -21,6 +24,35 @@ function getSerializableKeys(value: Record<string, any>): string[] {
     });
 }
 
+/**
+ * 判断两个 Trait 是否相同（可以用 Trait 引用代替）
+ */
+function isSameTrait(a: AMFTrait, b: AMFTrait): boolean {
+    if (a.name !== b.name
+        || a.dynamic !== b.dynamic
+        || a.externalizable !== b.externalizable
+        || a.staticFields.length !== b.staticFields.length) {
+        return false;
+    }
+    for (let i = 0; i < a.staticFields.length; i++) {
+        if (a.staticFields[i] !== b.staticFields[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * 编码器选项
+ */
+export interface AMFEncoderOptions {
+    /**
+     * 是否使用字符串引用表，默认 true
+     * 为 false 时所有字符串（包括键、类名）都完整写出
+     */
+    stringReferences?: boolean;
+}
+
 /**
  * AMF3 编码器
  */
@@ -28,13 +60,55 @@ export class AMFEncoder extends Writer {
     /** AMF3 对象引用表 */
     private amf3ObjectReferences: any[];
 
-    /** AMF3 字符串引用表 */
-    private amf3StringReferences: string[];
+    /** AMF3 字符串引用表（字符串 -> 引用索引） */
+    private amf3StringReferences: Map<string, number>;
+
+    /** AMF3 Trait 引用表 */
+    private amf3TraitReferences: AMFTrait[];
+
+    /** 上下文（类别名注册表） */
+    protected context: AMFContext;
 
-    constructor() {
+    /** 编码器选项 */
+    protected options: AMFEncoderOptions;
+
+    /**
+     * @param context - 上下文或编码器选项；传入选项时使用全局默认上下文的注册表
+     */
+    constructor(context: AMFContext | AMFEncoderOptions = AMFContext.defaultContext) {
         super();
+        if (context instanceof AMFContext) {
+            this.context = context;
+            this.options = context.options;
+        } else {
+            this.context = AMFContext.defaultContext;
+            this.options = context;
+        }
         this.amf3ObjectReferences = [];
-        this.amf3StringReferences = [];
+        this.amf3StringReferences = new Map();
+        this.amf3TraitReferences = [];
+    }
+
+    /**
+     * 把原样写入的数据中定义的字符串、对象和 Trait 加入引用表，使之后的引用索引与原数据一致
+     *
+     * @param references - 原样写入的数据中定义的引用（解码器 sliceReferences 的结果）
+     */
+    addReferences(references: AMFReferences): void {
+        if (this.options.stringReferences !== false) {
+            for (let i = 0; i < references.strings.length; i++) {
+                const value = references.strings[i];
+                if (!this.amf3StringReferences.has(value)) {
+                    this.amf3StringReferences.set(value, this.amf3StringReferences.size);
+                }
+            }
+        }
+        for (let i = 0; i < references.objects.length; i++) {
+            this.amf3ObjectReferences.push(references.objects[i]);
+        }
+        for (let i = 0; i < references.traits.length; i++) {
+            this.amf3TraitReferences.push(references.traits[i]);
+        }
     }
 
     /**
@@ -59,11 +133,47 @@ export class AMFEncoder extends Writer {
         this.writeByType(value instanceof ForcedTypeValue ? value.value : value, type);
     }
 
+    /**
+     * 编码容器中的一个元素，出错时把元素的键或下标加入错误路径
+     *
+     * @param value - 元素的值
+     * @param segment - 元素在容器中的键或下标
+     */
+    protected writeObjectAt(value: any, segment: AMFPathSegment): void {
+        try {
+            this.writeObject(value);
+        } catch (e) {
+            throw withPathSegment(e, segment);
+        }
+    }
+
     /**
      * 推断值的 AMF3 类型
      */
     private inferType(value: any): AMFType {
-        return AMF3.infer(value);
+        let type: AMFType;
+        try {
+            type = AMF3.infer(value);
+        } catch (e) {
+            throw new AMFEncodeError(`Cannot encode value of type ${typeof value}`, this.getLength());
+        }
+        // 通过 registerClassAlias 注册的类即使没有继承 Serializable 也按对象编码
+        if (type === AMF3.ARRAY && !Array.isArray(value) && this.getClassName(value) !== '') {
+            return AMF3.OBJECT;
+        }
+        return type;
+    }
+
+    /**
+     * 获取对象的 AMF 类名
+     *
+     * 优先使用 __class，否则查找对象的类是否在上下文中注册了别名
+     */
+    protected getClassName(value: Record<string, any>): string {
+        if (value.__class) {
+            return value.__class;
+        }
+        return this.context.classes.getAlias(value.constructor) ?? '';
     }
 
     /**
@@ -73,25 +183,15 @@ export class AMFEncoder extends Writer {
         const type = this.inferType(value);
         const realValue = value instanceof ForcedTypeValue ? value.value : value;
 
-        if (type.referencable && realValue !== '') {
-            let index = -1;
-            if (type === AMF3.STRING) {
-                index = this.amf3StringReferences.indexOf(realValue);
-            } else {
-                index = this.amf3ObjectReferences.indexOf(realValue);
-            }
-
+        // 字符串引用在 writeAMF3String 中统一处理
+        if (type.referencable && type !== AMF3.STRING) {
+            const index = this.amf3ObjectReferences.indexOf(realValue);
             if (index !== -1) {
                 this.writeByte(type.id);
                 this.writeInt29(index << 1);
                 return;
             }
-
-            if (type === AMF3.STRING) {
-                this.amf3StringReferences.push(realValue);
-            } else {
-                this.amf3ObjectReferences.push(realValue);
-            }
+            this.amf3ObjectReferences.push(realValue);
         }
 
         this.writeByte(type.id);
@@ -115,7 +215,11 @@ export class AMFEncoder extends Writer {
                 this.writeDoubleBE(value);
                 return;
             case 0x06: // STRING
-                this.writeInlineString(value);
+                this.writeAMF3String(value);
+                return;
+            case 0x07: // XML_DOC
+            case 0x0B: // XML
+                this.writeXml(value);
                 return;
             case 0x08: // DATE
                 this.writeInt29(1);
@@ -130,21 +234,38 @@ export class AMFEncoder extends Writer {
             case 0x0C: // BYTE_ARRAY
                 this.writeByteArray(value);
                 return;
+            case 0x0D: // VECTOR_INT
+            case 0x0E: // VECTOR_UINT
+            case 0x0F: // VECTOR_DOUBLE
+            case 0x10: // VECTOR_OBJECT
+                this.writeVector(value, type);
+                return;
+            case 0x11: // DICTIONARY
+                this.writeDictionary(value);
+                return;
             default:
-                throw new Error('当前 AMF3 编码器暂不支持该类型: ' + type.name);
+                throw new AMFEncodeError(`Unsupported AMF3 type ${type.name}`, this.getLength());
         }
     }
 
     /**
-     * 写入 AMF3 内联字符串（无类型标记）
+     * 写入 AMF3 字符串（UTF-8-vr，无类型标记）
      *
-     * 说明：
-     * 这里保持与原 lib 行为一致，不在“无类型字符串”分支中做字符串引用表复用。
+     * 字符串值、对象键、类名和 Trait 字段名都共用字符串引用表，与 Flash Player 的输出一致。
+     * 空字符串永远不进入引用表。
      */
-    private writeInlineString(value: string): void {
-        const bytes = new TextEncoder().encode(value);
-        this.writeInt29((bytes.length << 1) | 1);
-        this.write(bytes);
+    writeAMF3String(value: string): void {
+        if (value !== '' && this.options.stringReferences !== false) {
+            const index = this.amf3StringReferences.get(value);
+            if (index !== undefined) {
+                this.writeInt29(index << 1);
+                return;
+            }
+            this.amf3StringReferences.set(value, this.amf3StringReferences.size);
+        }
+
+        this.writeInt29((getUTF8Length(value) << 1) | 1);
+        this.writeUTF8(value);
     }
 
     /**
@@ -153,9 +274,9 @@ export class AMFEncoder extends Writer {
     private writeArray(value: any[] | Record<string, any>): void {
         if (Array.isArray(value)) {
             this.writeInt29((value.length << 1) | 1);
-            this.writeInlineString('');
+            this.writeAMF3String('');
             for (let i = 0; i < value.length; i++) {
-                this.encodeValue(value[i]);
+                this.writeObjectAt(value[i], i);
             }
             return;
         }
@@ -167,10 +288,10 @@ export class AMFEncoder extends Writer {
             if (key.indexOf('__') === 0) {
                 continue;
             }
-            this.writeInlineString(key);
-            this.encodeValue((value as Record<string, any>)[key]);
+            this.writeAMF3String(key);
+            this.writeObjectAt((value as Record<string, any>)[key], key);
         }
-        this.writeInlineString('');
+        this.writeAMF3String('');
     }
 
     /**
@@ -178,12 +299,12 @@ export class AMFEncoder extends Writer {
      */
     private writeObjectValue(value: Record<string, any>): void {
         // 判断是否按动态对象编码
-        // __dynamic 为 false 时强制静态编码，否则无 __class 时为动态
-        const isDynamic = value.__dynamic !== false && !value.__class;
+        // __dynamic 为 false 时强制静态编码，否则无类名时为动态
+        const className = this.getClassName(value);
+        const isDynamic = value.__dynamic !== false && !className;
 
         if (isDynamic) {
-            this.writeInt29(0x0b);
-            this.writeInt29(0x01);
+            this.writeTrait(new AMFTrait('', true, false));
 
             const keys = Object.keys(value);
             for (let i = 0; i < keys.length; i++) {
@@ -192,37 +313,67 @@ export class AMFEncoder extends Writer {
                     continue;
                 }
                 //key和value交替写入
-                this.writeInlineString(key);
-                this.encodeValue(value[key]);
+                this.writeAMF3String(key);
+                this.writeObjectAt(value[key], key);
             }
-            this.writeInlineString('');
+            this.writeAMF3String('');
             return;
         }
         // 静态编码
-        const externalizable = value instanceof Externalizable;
-        const keys = externalizable ? [] : getSerializableKeys(value);
-
-        let header = keys.length << 4;
-        header |= (externalizable ? 1 : 0) << 2;
-        header = (header | 2) | 1;
-
-        this.writeInt29(header);
-        this.writeInlineString(value.__class || '');
+        const externalizable = isExternalizable(value);
+        const trait = new AMFTrait(className, false, externalizable);
+        if (!externalizable) {
+            trait.staticFields = getSerializableKeys(value);
+        }
+        this.writeTrait(trait);
 
         if (externalizable) {
             (value as Externalizable).write(this);
             return;
         }
-        // key
-        for (let i = 0; i < keys.length; i++) {
-            this.writeInlineString(keys[i]);
-        }
         // value
+        const keys = trait.staticFields;
         for (let i = 0; i < keys.length; i++) {
-            this.encodeValue(value[keys[i]]);
+            this.writeObjectAt(value[keys[i]], keys[i]);
         }
     }
 
+    /**
+     * 写入 AMF3 对象 Trait
+     *
+     * 与之前写过的 Trait 相同时（类名、动态、可外部化标记和静态字段列表均相同）写入 Trait 引用，
+     * 否则写入完整的 Trait（类名 + 静态字段名）并加入引用表
+     */
+    private writeTrait(trait: AMFTrait): void {
+        for (let i = 0; i < this.amf3TraitReferences.length; i++) {
+            if (isSameTrait(this.amf3TraitReferences[i], trait)) {
+                this.writeInt29((i << 2) | 1);
+                return;
+            }
+        }
+        this.amf3TraitReferences.push(trait);
+
+        let header = trait.staticFields.length << 4;
+        header |= (trait.dynamic ? 1 : 0) << 3;
+        header |= (trait.externalizable ? 1 : 0) << 2;
+        header = (header | 2) | 1;
+
+        this.writeInt29(header);
+        this.writeAMF3String(trait.name);
+        for (let i = 0; i < trait.staticFields.length; i++) {
+            this.writeAMF3String(trait.staticFields[i]);
+        }
+    }
+
+    /**
+     * 写入 AMF3 XML / XMLDocument 文本
+     */
+    private writeXml(value: AMFXml | AMFXmlDocument | string): void {
+        const text = String(value);
+        this.writeInt29((getUTF8Length(text) << 1) | 1);
+        this.writeUTF8(text);
+    }
+
     /**
      * 写入 AMF3 ByteArray
      */
@@ -230,6 +381,51 @@ export class AMFEncoder extends Writer {
         this.writeInt29((value.length << 1) | 1);
         this.write(value);
     }
+
+    /**
+     * 写入 AMF3 向量
+     *
+     * 普通数组与 TypedArray 按非定长向量写入；AMFVector 保留 fixed 标记与元素类名
+     */
+    private writeVector(value: ArrayLike<any>, type: AMFType): void {
+        const isVector = value instanceof AMFVector;
+        this.writeInt29((value.length << 1) | 1);
+        this.writeByte(isVector && value.__fixed ? 1 : 0);
+
+        if (type === AMF3.VECTOR_OBJECT) {
+            this.writeAMF3String(isVector ? value.__class : '');
+        }
+
+        for (let i = 0; i < value.length; i++) {
+            switch (type.id) {
+                case 0x0D: // VECTOR_INT
+                    this.writeInt32BE(value[i]);
+                    break;
+                case 0x0E: // VECTOR_UINT
+                    this.writeUInt32BE(value[i]);
+                    break;
+                case 0x0F: // VECTOR_DOUBLE
+                    this.writeDoubleBE(value[i]);
+                    break;
+                default: // VECTOR_OBJECT
+                    this.writeObjectAt(value[i], i);
+            }
+        }
+    }
+
+    /**
+     * 写入 AMF3 字典，键和值都按完整 AMF3 值写入
+     */
+    private writeDictionary(value: Map<any, any>): void {
+        this.writeInt29((value.size << 1) | 1);
+        this.writeByte(value instanceof AMFDictionary && value.__weakKeys ? 1 : 0);
+        let i = 0;
+        for (const [key, entryValue] of value) {
+            this.writeObjectAt(key, i);
+            this.writeObjectAt(entryValue, i);
+            i++;
+        }
+    }
 }
 
 export default AMFEncoder;
@@ -0,0 +1,308 @@
+/**
+ * 错误类型模块
+ *
+ * 编解码错误都继承自 AMFError，带有稳定的错误码、检测到错误时的字节位置、
+ * 所在值的类型标记以及在对象图中的路径（如 root.players[3].inventory），错误信息使用英文，便于日志和告警匹配。
+ */
+
+/**
+ * 错误码
+ */
+export const AMFErrorCode = {
+    /** 数据在值的中间结束 */
+    UNEXPECTED_EOF: 'AMF_UNEXPECTED_EOF',
+
+    /** 字符串、对象或 Trait 引用超出引用表 */
+    INVALID_REFERENCE: 'AMF_INVALID_REFERENCE',
+
+    /** 未知的类型标记 */
+    UNKNOWN_TYPE: 'AMF_UNKNOWN_TYPE',
+
+    /** 类名或外部化类型未注册 */
+    UNREGISTERED_CLASS: 'AMF_UNREGISTERED_CLASS',
+
+    /** 数据格式错误（如 AMF0 对象结束标记错误） */
+    INVALID_DATA: 'AMF_INVALID_DATA',
+
+    /** 解码后仍有未读取的数据 */
+    TRAILING_DATA: 'AMF_TRAILING_DATA',
+
+    /** 超出解码限制 */
+    LIMIT_EXCEEDED: 'AMF_LIMIT_EXCEEDED',
+
+    /** 值无法编码 */
+    ENCODE_ERROR: 'AMF_ENCODE_ERROR'
+} as const;
+
+export type AMFErrorCode = typeof AMFErrorCode[keyof typeof AMFErrorCode];
+
+/**
+ * 路径中的一段：对象键或数组下标
+ */
+export type AMFPathSegment = string | number;
+
+/** 可以用点号连接的键 */
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * 把路径格式化为 root.players[3].inventory 的形式
+ *
+ * @param segments - 从根开始的各段路径
+ * @returns 格式化后的路径
+ */
+export function formatPath(segments: AMFPathSegment[]): string {
+    let path = 'root';
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        if (typeof segment === 'number') {
+            path += '[' + segment + ']';
+        } else if (IDENTIFIER.test(segment)) {
+            path += '.' + segment;
+        } else {
+            path += '[' + JSON.stringify(segment) + ']';
+        }
+    }
+    return path;
+}
+
+/**
+ * 编解码错误的基类
+ */
+export class AMFError extends Error {
+    /** 稳定的错误码 */
+    public code: AMFErrorCode;
+
+    /** 检测到错误时的字节位置 */
+    public offset: number;
+
+    /** 出错的值的类型标记（AMF0 或 AMF3，取决于出错时的编码），未知时为 undefined */
+    public marker: number | undefined;
+
+    /** 出错的值在对象图中的路径，从根开始 */
+    public pathSegments: AMFPathSegment[];
+
+    /** 不含位置信息的错误描述 */
+    public detail: string;
+
+    /**
+     * @param code - 错误码
+     * @param detail - 错误描述（英文）
+     * @param offset - 检测到错误时的字节位置
+     */
+    constructor(code: AMFErrorCode, detail: string, offset: number) {
+        super(detail);
+        this.name = 'AMFError';
+        this.code = code;
+        this.offset = offset;
+        this.marker = undefined;
+        this.pathSegments = [];
+        this.detail = detail;
+        this.updateMessage();
+    }
+
+    /**
+     * 出错的值在对象图中的路径，如 root.players[3].inventory
+     */
+    get path(): string {
+        return formatPath(this.pathSegments);
+    }
+
+    /**
+     * 在路径前面加上一段（错误向外层传递时由各层容器调用）
+     *
+     * @param segment - 外层容器中的键或下标
+     */
+    prependPath(segment: AMFPathSegment): void {
+        this.pathSegments.unshift(segment);
+        this.updateMessage();
+    }
+
+    /**
+     * 记录出错的值的类型标记，已经记录过时（更内层的值）不再覆盖
+     *
+     * @param marker - 类型标记
+     */
+    setMarker(marker: number): void {
+        if (this.marker === undefined) {
+            this.marker = marker;
+            this.updateMessage();
+        }
+    }
+
+    /**
+     * 根据描述和位置信息重新生成错误信息
+     */
+    private updateMessage(): void {
+        let location = 'offset ' + this.offset;
+        if (this.marker !== undefined) {
+            location += ', marker 0x' + this.marker.toString(16).padStart(2, '0');
+        }
+        this.message = `${this.detail} at ${this.path} (${location})`;
+    }
+}
+
+/**
+ * 给传出容器的错误加上容器中的键或下标，非 AMFError 原样返回
+ *
+ * @param error - 捕获到的错误
+ * @param segment - 键或下标
+ * @returns 传入的错误
+ */
+export function withPathSegment(error: unknown, segment: AMFPathSegment): unknown {
+    if (error instanceof AMFError) {
+        error.prependPath(segment);
+    }
+    return error;
+}
+
+/**
+ * 数据在值的中间结束
+ *
+ * 流式解码器据此判断需要等待更多数据，而不是数据本身有误
+ */
+export class AMFUnexpectedEOFError extends AMFError {
+    /** 本次读取需要的数据总长度（从数据开头算起） */
+    public required: number;
+
+    /**
+     * @param offset - 读取开始的位置
+     * @param required - 需要的数据总长度
+     * @param length - 数据的实际总长度
+     */
+    constructor(offset: number, required: number, length: number) {
+        super(AMFErrorCode.UNEXPECTED_EOF, `Unexpected end of data: needed ${required - offset} bytes, ${length - offset} available`, offset);
+        this.name = 'AMFUnexpectedEOFError';
+        this.required = required;
+    }
+}
+
+/**
+ * 引用所在的引用表
+ */
+export type AMFReferenceTable = 'string' | 'object' | 'trait' | 'amf0Object';
+
+/**
+ * 字符串、对象或 Trait 引用超出引用表
+ */
+export class AMFInvalidReferenceError extends AMFError {
+    /** 引用表 */
+    public table: AMFReferenceTable;
+
+    /** 引用索引 */
+    public index: number;
+
+    /**
+     * @param table - 引用表
+     * @param index - 引用索引
+     * @param size - 引用表当前的长度
+     * @param offset - 检测到错误时的字节位置
+     */
+    constructor(table: AMFReferenceTable, index: number, size: number, offset: number) {
+        super(AMFErrorCode.INVALID_REFERENCE, `Invalid ${table} reference ${index} (table size ${size})`, offset);
+        this.name = 'AMFInvalidReferenceError';
+        this.table = table;
+        this.index = index;
+    }
+}
+
+/**
+ * 未知的类型标记
+ */
+export class AMFUnknownTypeError extends AMFError {
+    /** AMF 版本（0 或 3） */
+    public version: number;
+
+    /**
+     * @param version - AMF 版本（0 或 3）
+     * @param marker - 类型标记
+     * @param offset - 类型标记所在的位置
+     */
+    constructor(version: number, marker: number, offset: number) {
+        super(AMFErrorCode.UNKNOWN_TYPE, `Unknown AMF${version} type marker 0x${marker.toString(16).padStart(2, '0')}`, offset);
+        this.name = 'AMFUnknownTypeError';
+        this.version = version;
+        this.setMarker(marker);
+    }
+}
+
+/**
+ * 类名或外部化类型未注册
+ */
+export class AMFUnregisteredClassError extends AMFError {
+    /** AMF 中的类名 */
+    public className: string;
+
+    /** 是否为外部化类型 */
+    public externalizable: boolean;
+
+    /**
+     * @param className - AMF 中的类名
+     * @param externalizable - 是否为外部化类型
+     * @param offset - 检测到错误时的字节位置
+     * @param detail - 错误描述（英文），默认说明类未注册
+     */
+    constructor(className: string, externalizable: boolean, offset: number, detail?: string) {
+        super(
+            AMFErrorCode.UNREGISTERED_CLASS,
+            detail ?? `${externalizable ? 'Unregistered externalizable class' : 'Unregistered class alias'} "${className}"`,
+            offset
+        );
+        this.name = 'AMFUnregisteredClassError';
+        this.className = className;
+        this.externalizable = externalizable;
+    }
+}
+
+/**
+ * 值无法编码
+ */
+export class AMFEncodeError extends AMFError {
+    /**
+     * @param detail - 错误描述（英文）
+     * @param offset - 出错时已写入的字节数
+     */
+    constructor(detail: string, offset: number) {
+        super(AMFErrorCode.ENCODE_ERROR, detail, offset);
+        this.name = 'AMFEncodeError';
+    }
+}
+
+/**
+ * 解码限制名称
+ */
+export type AMFDecoderLimitName =
+    | 'maxDepth'
+    | 'maxCollectionLength'
+    | 'maxStringLength'
+    | 'maxByteArrayLength'
+    | 'maxObjects'
+    | 'maxTotalObjects'
+    | 'maxTraitFields';
+
+/**
+ * 解码时超出资源限制（在分配内存之前抛出）
+ */
+export class AMFLimitError extends AMFError {
+    /** 超出的限制 */
+    public limit: AMFDecoderLimitName;
+
+    /** 数据中的实际值 */
+    public value: number;
+
+    /** 限制的最大值 */
+    public max: number;
+
+    /**
+     * @param limit - 超出的限制
+     * @param value - 数据中的实际值
+     * @param max - 限制的最大值
+     * @param offset - 检测到超出限制时的字节位置
+     */
+    constructor(limit: AMFDecoderLimitName, value: number, max: number, offset: number) {
+        super(AMFErrorCode.LIMIT_EXCEEDED, `Decoder limit ${limit} exceeded: ${value} > ${max}`, offset);
+        this.name = 'AMFLimitError';
+        this.limit = limit;
+        this.value = value;
+        this.max = max;
+    }
+}
@@ -0,0 +1,219 @@
+/**
+ * FLV 脚本数据标签模块
+ *
+ * FLV 的 onMetaData 等脚本数据保存在类型为 18 的标签中：
+ * 11 字节标签头（类型、3 字节数据长度、3+1 字节时间戳、3 字节流 ID），
+ * 数据部分为 AMF0 字符串（名称）加 ECMA 数组（属性），标签之后是 4 字节的 PreviousTagSize。
+ * 顶层属性保存在 Map 中，保证重新生成时属性顺序不变（普通对象会把数字键提前）。
+ */
+
+import { Reader } from './reader';
+import { Writer } from './writer';
+import { AMF0Encoder } from './amf0-encoder';
+import { AMF0Decoder } from './amf0-decoder';
+import { AMFContext } from './context';
+import { AMF0 } from './types';
+
+/** 脚本数据标签类型 */
+export const FLV_SCRIPT_TAG_TYPE = 18;
+
+/** 标签头长度 */
+const FLV_TAG_HEADER_LENGTH = 11;
+
+/** PreviousTagSize 字段长度 */
+const FLV_PREVIOUS_TAG_SIZE_LENGTH = 4;
+
+/**
+ * 在 FLV 文件中找到的脚本数据标签
+ */
+export interface FLVScriptTagLocation {
+    /** 标签在文件中的起始位置 */
+    offset: number;
+
+    /** 标签占用的字节数（包括标签头和之后的 PreviousTagSize） */
+    size: number;
+
+    /** 解析出的标签 */
+    tag: FLVScriptTag;
+}
+
+/**
+ * FLV 脚本数据标签
+ *
+ * @example
+ * ```typescript
+ * const [meta] = FLVScriptTag.findAll(flvBytes);
+ * meta.tag.properties.set('duration', 120.5);
+ * const patched = concat(flvBytes.subarray(0, meta.offset), meta.tag.encode(), flvBytes.subarray(meta.offset + meta.size));
+ * ```
+ */
+export class FLVScriptTag {
+    /** 脚本数据名称，通常为 onMetaData */
+    public name: string;
+
+    /** 顶层属性，保持原始顺序 */
+    public properties: Map<string, any>;
+
+    /** 顶层属性是否以 ECMA 数组写入（为 false 时以 AMF0 Object 写入） */
+    public ecmaArray: boolean;
+
+    /** 时间戳（毫秒） */
+    public timestamp: number;
+
+    /** 流 ID（总是 0） */
+    public streamId: number;
+
+    /**
+     * @param name - 脚本数据名称，默认为 onMetaData
+     * @param properties - 顶层属性
+     */
+    constructor(name: string = 'onMetaData', properties: Map<string, any> = new Map()) {
+        this.name = name;
+        this.properties = properties;
+        this.ecmaArray = true;
+        this.timestamp = 0;
+        this.streamId = 0;
+    }
+
+    /**
+     * 解析一个完整的脚本数据标签（从标签头开始，之后的 PreviousTagSize 可有可无）
+     *
+     * @param bytes - 标签字节
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 解析后的标签
+     */
+    static parse(bytes: Uint8Array, context: AMFContext = AMFContext.defaultContext): FLVScriptTag {
+        const reader = new Reader(bytes);
+        const type = reader.readUInt8() & 0x1F;
+        if (type !== FLV_SCRIPT_TAG_TYPE) {
+            throw new Error('不是 FLV 脚本数据标签: ' + type);
+        }
+        const dataSize = (reader.readUInt8() << 16) | reader.readUInt16BE();
+        const timestamp = (reader.readUInt8() << 16) | reader.readUInt16BE();
+        const timestampExtended = reader.readUInt8();
+        const streamId = (reader.readUInt8() << 16) | reader.readUInt16BE();
+        const data = reader.readByte(dataSize, true) as Uint8Array;
+
+        const tag = FLVScriptTag.parseData(data, context);
+        tag.timestamp = ((timestampExtended << 24) | timestamp) >>> 0;
+        tag.streamId = streamId;
+        return tag;
+    }
+
+    /**
+     * 只解析标签的数据部分（AMF0 名称和属性）
+     *
+     * @param data - 数据部分字节
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 解析后的标签
+     */
+    static parseData(data: Uint8Array, context: AMFContext = AMFContext.defaultContext): FLVScriptTag {
+        const decoder = new AMF0Decoder(data, context);
+        const name = decoder.decodeValue(null);
+        if (typeof name !== 'string') {
+            throw new Error('无效的 FLV 脚本数据: 名称不是字符串');
+        }
+
+        const tag = new FLVScriptTag(name);
+        const marker = decoder.readUInt8();
+        if (marker === AMF0.ECMA_ARRAY.id) {
+            decoder.readUInt32BE(); // 元素数量，仅作提示，以 OBJECT_END 为准
+        } else if (marker === AMF0.OBJECT.id) {
+            tag.ecmaArray = false;
+        } else {
+            throw new Error('无效的 FLV 脚本数据: 不支持的属性类型 ' + marker);
+        }
+
+        while (true) {
+            const key = decoder.readString();
+            if (key === '') {
+                const end = decoder.readUInt8();
+                if (end !== AMF0.OBJECT_END.id) {
+                    throw new Error('无效的 AMF0 对象结束标记: ' + end);
+                }
+                break;
+            }
+            tag.properties.set(key, decoder.decodeValue(null));
+        }
+        return tag;
+    }
+
+    /**
+     * 在 FLV 文件中查找所有脚本数据标签
+     *
+     * @param file - FLV 文件内容
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 找到的标签及其位置
+     */
+    static findAll(file: Uint8Array, context: AMFContext = AMFContext.defaultContext): FLVScriptTagLocation[] {
+        const reader = new Reader(file);
+        if (reader.readUTF8String(3) !== 'FLV') {
+            throw new Error('不是有效的 FLV 文件: 缺少 FLV 签名');
+        }
+        reader.readUInt8(); // 版本
+        reader.readUInt8(); // 音视频标记
+        reader.setPosition(reader.readUInt32BE() + FLV_PREVIOUS_TAG_SIZE_LENGTH);
+
+        const locations: FLVScriptTagLocation[] = [];
+        while (reader.getBytesAvailable() >= FLV_TAG_HEADER_LENGTH) {
+            const offset = reader.getPosition();
+            const type = reader.readUInt8() & 0x1F;
+            const dataSize = (reader.readUInt8() << 16) | reader.readUInt16BE();
+            const size = FLV_TAG_HEADER_LENGTH + dataSize + FLV_PREVIOUS_TAG_SIZE_LENGTH;
+            if (type === FLV_SCRIPT_TAG_TYPE) {
+                const tag = FLVScriptTag.parse(file.subarray(offset, offset + FLV_TAG_HEADER_LENGTH + dataSize), context);
+                locations.push({ offset, size, tag });
+            }
+            reader.setPosition(offset + size);
+        }
+        return locations;
+    }
+
+    /**
+     * 生成标签的数据部分（AMF0 名称和属性）
+     *
+     * @param context - 编码使用的上下文，默认为全局默认上下文
+     * @returns 数据部分字节
+     */
+    encodeData(context: AMFContext = AMFContext.defaultContext): Uint8Array {
+        const encoder = new AMF0Encoder(false, context);
+        encoder.writeObject(this.name);
+        if (this.ecmaArray) {
+            encoder.writeByte(AMF0.ECMA_ARRAY.id);
+            encoder.writeUInt32BE(this.properties.size);
+        } else {
+            encoder.writeByte(AMF0.OBJECT.id);
+        }
+        this.properties.forEach((value, key) => {
+            encoder.writeString(key);
+            encoder.writeObject(value);
+        });
+        encoder.writeUInt16BE(0);
+        encoder.writeByte(AMF0.OBJECT_END.id);
+        return encoder.getBuffer();
+    }
+
+    /**
+     * 生成完整的标签（标签头、数据和 PreviousTagSize）
+     *
+     * @param context - 编码使用的上下文，默认为全局默认上下文
+     * @returns 标签字节
+     */
+    encode(context: AMFContext = AMFContext.defaultContext): Uint8Array {
+        const data = this.encodeData(context);
+        const writer = new Writer();
+        writer.writeByte(FLV_SCRIPT_TAG_TYPE);
+        writer.writeByte(data.length >> 16);
+        writer.writeUInt16BE(data.length & 0xFFFF);
+        writer.writeByte(this.timestamp >> 16);
+        writer.writeUInt16BE(this.timestamp & 0xFFFF);
+        writer.writeByte(this.timestamp >>> 24);
+        writer.writeByte(this.streamId >> 16);
+        writer.writeUInt16BE(this.streamId & 0xFFFF);
+        writer.write(data);
+        writer.writeUInt32BE(FLV_TAG_HEADER_LENGTH + data.length);
+        return writer.getBuffer();
+    }
+}
+
+export default FLVScriptTag;
@@ -0,0 +1,303 @@
+/**
+ * AMF 网关（服务端）模块
+ *
+ * 解码客户端发来的 AMF 数据包，把每个 body 的目标 URI（"Service.method"）路由到注册的服务，
+ * 并以 "/n/onResult" 或 "/n/onStatus" 编码响应。
+ * Flex 客户端发来的 RemotingMessage / CommandMessage 分别回复 AcknowledgeMessage 或 ErrorMessage。
+ * 提供与 Node http 兼容的请求处理函数，也可以在 Express / Koa 中使用。
+ */
+
+import { AMFPacket, AMFMessage } from './packet';
+import { AMFContext } from './context';
+import {
+    AbstractMessage,
+    AcknowledgeMessage,
+    CommandMessage,
+    ErrorMessage,
+    RemotingMessage,
+    createUID
+} from './messaging';
+
+/**
+ * 网关选项
+ */
+export interface AMFGatewayOptions {
+    /** 编解码使用的上下文，默认为全局默认上下文 */
+    context?: AMFContext;
+}
+
+/**
+ * 与 Node http.IncomingMessage 兼容的请求（只用到其中一部分）
+ *
+ * 如果前置中间件已经把请求体读成 Buffer / Uint8Array 并放在 body 上（如 express.raw），直接使用它
+ */
+export interface GatewayRequest {
+    method?: string;
+    body?: unknown;
+    on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * 与 Node http.ServerResponse 兼容的响应（只用到其中一部分）
+ */
+export interface GatewayResponse {
+    statusCode: number;
+    setHeader(name: string, value: string | number): unknown;
+    end(data?: any): unknown;
+}
+
+/**
+ * 调用结果
+ */
+interface InvokeResult {
+    ok: boolean;
+    value: any;
+}
+
+/**
+ * 读取完整的请求体
+ */
+function readRequestBody(request: GatewayRequest): Promise<Uint8Array> {
+    if (request.body instanceof Uint8Array) {
+        return Promise.resolve(request.body);
+    }
+    return new Promise((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        let length = 0;
+        request.on('data', (chunk: Uint8Array) => {
+            chunks.push(chunk);
+            length += chunk.length;
+        });
+        request.on('end', () => {
+            const body = new Uint8Array(length);
+            let offset = 0;
+            for (let i = 0; i < chunks.length; i++) {
+                body.set(chunks[i], offset);
+                offset += chunks[i].length;
+            }
+            resolve(body);
+        });
+        request.on('error', reject);
+    });
+}
+
+/**
+ * 创建带错误码的异常
+ */
+function createGatewayError(code: string, message: string): Error {
+    return Object.assign(new Error(message), { code });
+}
+
+/**
+ * 取出异常的错误码和描述
+ */
+function describeError(error: any, defaultCode: string): { code: string; message: string } {
+    const code = error && typeof error.code === 'string' ? error.code : defaultCode;
+    const message = error instanceof Error ? error.message : String(error);
+    return { code, message };
+}
+
+/**
+ * AMF 网关
+ *
+ * @example
+ * ```typescript
+ * const gateway = new AMFGateway();
+ * gateway.register('UserService', {
+ *     getUser(id: number) { return { id, name: 'tom' }; }
+ * });
+ *
+ * http.createServer(gateway.handler()).listen(8080);
+ * // Express: app.post('/gateway', gateway.handler());
+ * ```
+ */
+export class AMFGateway {
+    /** 注册的服务 */
+    private services: Map<string, Record<string, any>>;
+
+    private context: AMFContext;
+
+    /**
+     * @param options - 网关选项
+     */
+    constructor(options: AMFGatewayOptions = {}) {
+        this.services = new Map();
+        this.context = options.context ?? AMFContext.defaultContext;
+    }
+
+    /**
+     * 注册服务，服务对象上的方法可以通过 "name.method" 调用
+     *
+     * @param name - 服务名（Flex 中为 destination）
+     * @param service - 服务对象
+     */
+    register(name: string, service: Record<string, any>): void {
+        this.services.set(name, service);
+    }
+
+    /**
+     * 取消注册服务
+     *
+     * @param name - 服务名
+     */
+    unregister(name: string): void {
+        this.services.delete(name);
+    }
+
+    /**
+     * 处理一个请求数据包
+     *
+     * @param request - 请求数据包
+     * @returns 响应数据包
+     */
+    async handle(request: AMFPacket): Promise<AMFPacket> {
+        const response = new AMFPacket(request.version);
+        for (let i = 0; i < request.messages.length; i++) {
+            const message = request.messages[i];
+            const result = await this.handleMessage(message);
+            const handler = result.ok ? '/onResult' : '/onStatus';
+            response.messages.push(new AMFMessage(message.responseURI + handler, 'null', result.value));
+        }
+        return response;
+    }
+
+    /**
+     * 处理请求数据包字节
+     *
+     * @param data - 请求数据包字节
+     * @returns 响应数据包字节
+     */
+    async handleBytes(data: Uint8Array): Promise<Uint8Array> {
+        const response = await this.handle(AMFPacket.decode(data, this.context));
+        return response.encode(this.context);
+    }
+
+    /**
+     * 创建 Node http 请求处理函数（也可以直接作为 Express 路由处理函数）
+     *
+     * @returns 请求处理函数
+     */
+    handler(): (request: GatewayRequest, response: GatewayResponse) => Promise<void> {
+        return async (request, response) => {
+            if (request.method !== undefined && request.method !== 'POST') {
+                response.statusCode = 405;
+                response.setHeader('Allow', 'POST');
+                response.end();
+                return;
+            }
+
+            let body: Uint8Array;
+            try {
+                body = await this.handleBytes(await readRequestBody(request));
+            } catch (e) {
+                response.statusCode = 400;
+                response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+                response.end(describeError(e, '').message);
+                return;
+            }
+
+            response.statusCode = 200;
+            response.setHeader('Content-Type', 'application/x-amf');
+            response.setHeader('Content-Length', body.length);
+            response.end(body);
+        };
+    }
+
+    /**
+     * 处理一个 body：Flex 消息按消息类型处理，其余按 "Service.method" 路由
+     */
+    private async handleMessage(message: AMFMessage): Promise<InvokeResult> {
+        const value = message.value;
+        const first = Array.isArray(value) ? value[0] : value;
+        if (first instanceof AbstractMessage) {
+            return this.handleFlexMessage(first);
+        }
+
+        const separator = message.targetURI.lastIndexOf('.');
+        const service = message.targetURI.substring(0, separator);
+        const method = message.targetURI.substring(separator + 1);
+        const args = Array.isArray(value) ? value : [value];
+        try {
+            return { ok: true, value: await this.invoke(service, method, args) };
+        } catch (e) {
+            const error = describeError(e, 'Server.Processing');
+            return {
+                ok: false,
+                value: { level: 'error', code: error.code, description: error.message }
+            };
+        }
+    }
+
+    /**
+     * 处理 Flex 消息：RemotingMessage 调用服务，CommandMessage（ping、登录等）直接确认
+     */
+    private async handleFlexMessage(request: AbstractMessage): Promise<InvokeResult> {
+        if (request instanceof RemotingMessage) {
+            try {
+                const args = Array.isArray(request.body) ? request.body : [request.body];
+                const result = await this.invoke(request.destination ?? '', request.operation, args);
+                return { ok: true, value: this.createAcknowledge(request, result) };
+            } catch (e) {
+                return { ok: false, value: this.createError(request, e) };
+            }
+        }
+
+        if (request instanceof CommandMessage) {
+            return { ok: true, value: this.createAcknowledge(request, null) };
+        }
+
+        return {
+            ok: false,
+            value: this.createError(request, createGatewayError('Server.Processing', '不支持的消息类型: ' + request.__class))
+        };
+    }
+
+    /**
+     * 调用注册的服务方法
+     */
+    private invoke(serviceName: string, method: string, args: any[]): any {
+        const service = this.services.get(serviceName);
+        if (!service) {
+            throw createGatewayError('Server.ResourceNotFound', '服务不存在: ' + serviceName);
+        }
+        if (typeof service[method] !== 'function' || method in Object.prototype) {
+            throw createGatewayError('Server.ResourceNotFound', '方法不存在: ' + serviceName + '.' + method);
+        }
+        return service[method](...args);
+    }
+
+    /**
+     * 创建对请求消息的确认消息
+     */
+    private createAcknowledge(request: AbstractMessage, body: any): AcknowledgeMessage {
+        const message = new AcknowledgeMessage();
+        this.fillReply(message, request);
+        message.body = body;
+        return message;
+    }
+
+    /**
+     * 创建对请求消息的错误消息
+     */
+    private createError(request: AbstractMessage, error: any): ErrorMessage {
+        const description = describeError(error, 'Server.Processing');
+        const message = new ErrorMessage();
+        this.fillReply(message, request);
+        message.body = null;
+        message.faultCode = description.code;
+        message.faultString = description.message;
+        return message;
+    }
+
+    /**
+     * 填写回复消息的公共字段
+     */
+    private fillReply(message: AcknowledgeMessage, request: AbstractMessage): void {
+        message.correlationId = request.messageId;
+        message.clientId = request.clientId ?? createUID();
+        message.destination = request.destination;
+        message.timestamp = Date.now();
+    }
+}
+
+export default AMFGateway;
@@ -1,6 +1,21 @@
 export * from './classes';
 export * from './decoder';
 export * from './encoder';
+export * from './amf0-decoder';
+export * from './amf0-encoder';
+export * from './packet';
+export * from './registry';
+export * from './context';
+export * from './collections';
+export * from './messaging';
+export * from './remoting-client';
+export * from './gateway';
+export * from './sol';
+export * from './rtmp';
+export * from './flv';
+export * from './stream-decoder';
+export * from './errors';
+export * from './inspector';
 export * from './types';
 // reader 和 writer 通常是内部工具，但也可能有用，为了方便先不导出，或者按需导出。
 // 根据 README，主要暴露 Encoder, Decoder, Classes, Types
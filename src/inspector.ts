@@ -0,0 +1,423 @@
+/**
+ * AMF 数据查看器模块
+ *
+ * 借助解码器遍历数据，生成带注释的树：每个值的字节范围、类型标记名称、
+ * 内联写出还是引用（以及引用的索引）、对象的 Trait 和解码出的值，可以渲染为文本或 JSON。
+ */
+
+import { AMFDecoder, AMFDecoderOptions, AMFDecodeObserver } from './decoder';
+import { AMF0Decoder } from './amf0-decoder';
+import { AMFContext } from './context';
+import { AMFTrait, AMFVector, AMFXml, AMFXmlDocument, Serializable } from './classes';
+import { AMFError, AMFPathSegment } from './errors';
+import { AMF0, AMF3 } from './types';
+
+/**
+ * 对象的 Trait 信息
+ */
+export interface AMFInspectTrait {
+    /** Trait 在引用表中的索引 */
+    index: number;
+
+    /** 是否在数据中完整写出（否则为 Trait 引用） */
+    inline: boolean;
+
+    /** 类名，匿名对象为空字符串 */
+    className: string;
+
+    /** 是否为动态对象 */
+    dynamic: boolean;
+
+    /** 是否为外部化对象 */
+    externalizable: boolean;
+
+    /** 静态字段名 */
+    fields: string[];
+}
+
+/**
+ * 树中的一个值
+ */
+export interface AMFInspectNode {
+    /** 在容器中的键或下标，顶层值为 null */
+    key: AMFPathSegment | null;
+
+    /** 类型标记所在的位置 */
+    start: number;
+
+    /** 值结束的位置（不包含） */
+    end: number;
+
+    /** 类型标记所属的 AMF 版本（0 或 3） */
+    version: number;
+
+    /** 类型标记 */
+    marker: number;
+
+    /** 类型标记名称（AMF3 / AMF0 中的类型名，未知时为 UNKNOWN） */
+    markerName: string;
+
+    /** 引用时为引用表中的索引，内联写出时为 null */
+    reference: number | null;
+
+    /** 对象的 Trait，非对象为 null */
+    trait: AMFInspectTrait | null;
+
+    /** 解码出的值 */
+    value: any;
+
+    /** 是否解码完成（解码出错时出错的值及其外层容器为 false） */
+    complete: boolean;
+
+    /** 容器中的值 */
+    children: AMFInspectNode[];
+}
+
+/**
+ * 查找类型标记名称
+ */
+function getMarkerName(marker: number, version: number): string {
+    try {
+        return (version === 0 ? AMF0 : AMF3).fromId(marker).name;
+    } catch (e) {
+        return 'UNKNOWN';
+    }
+}
+
+/**
+ * 从数据中读取 U29（数据不足时返回 null）
+ */
+function peekU29(bytes: Uint8Array, offset: number): number | null {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+        if (offset + i >= bytes.length) {
+            return null;
+        }
+        const byte = bytes[offset + i];
+        if (i === 3) {
+            return (value << 8) | byte;
+        }
+        value = (value << 7) | (byte & 0x7F);
+        if ((byte & 0x80) === 0) {
+            return value;
+        }
+    }
+    return value;
+}
+
+/**
+ * 判断 AMF3 类型是否带有引用头部
+ */
+function getMarkerReferencable(marker: number): boolean {
+    try {
+        return AMF3.fromId(marker).referencable;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * 读取值的引用索引，内联写出的值返回 null
+ *
+ * AMF3 可引用类型的类型标记之后是 U29 头部，最低位为 0 时表示引用；AMF0 只有 REFERENCE 类型表示引用
+ */
+function getReference(bytes: Uint8Array, marker: number, offset: number, version: number): number | null {
+    if (version === 0) {
+        if (marker !== AMF0.REFERENCE.id || offset + 3 > bytes.length) {
+            return null;
+        }
+        return (bytes[offset + 1] << 8) | bytes[offset + 2];
+    }
+    if (!getMarkerReferencable(marker)) {
+        return null;
+    }
+    const header = peekU29(bytes, offset + 1);
+    if (header === null || (header & 1) === 1) {
+        return null;
+    }
+    return header >> 1;
+}
+
+/**
+ * 把十六进制位置补齐到 4 位
+ */
+function hex(value: number, width: number = 4): string {
+    return value.toString(16).padStart(width, '0');
+}
+
+/**
+ * 把值概括为 JSON 兼容的形式：基本类型原样保留，容器只保留类型和长度
+ */
+function summarize(value: any): any {
+    if (value === undefined) {
+        return 'undefined';
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+    if (value instanceof AMFXml || value instanceof AMFXmlDocument) {
+        return value.value;
+    }
+    if (value instanceof Uint8Array) {
+        return `ByteArray(${value.length})`;
+    }
+    if (value instanceof AMFVector) {
+        return `Vector(${value.length})`;
+    }
+    if (Array.isArray(value)) {
+        return `Array(${value.length})`;
+    }
+    if (value instanceof Map) {
+        return `Dictionary(${value.size})`;
+    }
+    const className = value instanceof Serializable
+        ? value.__class
+        : value.constructor !== Object && value.constructor ? value.constructor.name : '';
+    return className ? `Object ${className}` : 'Object';
+}
+
+/**
+ * 渲染一行中的值
+ */
+function formatValue(value: any): string {
+    const summary = summarize(value);
+    return typeof summary === 'string' && typeof value === 'string' ? JSON.stringify(summary) : String(summary);
+}
+
+/**
+ * 渲染容器中的键
+ */
+function formatKey(key: AMFPathSegment | null): string {
+    if (key === null) {
+        return '';
+    }
+    return typeof key === 'number' ? `[${key}]: ` : `${key}: `;
+}
+
+/**
+ * 查看结果
+ */
+export class AMFInspection {
+    /** 顶层值 */
+    public nodes: AMFInspectNode[];
+
+    /** 数据总长度 */
+    public length: number;
+
+    /** 解码失败时的错误（此时 nodes 为失败前读出的部分），成功时为 null */
+    public error: Error | null;
+
+    /**
+     * @param nodes - 顶层值
+     * @param length - 数据总长度
+     * @param error - 解码失败时的错误
+     */
+    constructor(nodes: AMFInspectNode[], length: number, error: Error | null = null) {
+        this.nodes = nodes;
+        this.length = length;
+        this.error = error;
+    }
+
+    /**
+     * 渲染为缩进的文本，每个值一行：字节范围、键、类型标记、引用或 Trait、值
+     *
+     * @example
+     * ```text
+     * 0000-0025 AMF3.ARRAY (0x09) Array(2)
+     * 0003-0023   [0]: AMF3.OBJECT (0x0a) trait #0 inline demo.Player {name, level} Object Player
+     * 001c-0021     name: AMF3.STRING (0x06) "tom"
+     * 0021-0023     level: AMF3.INTEGER (0x04) 3
+     * 0023-0025   [1]: AMF3.OBJECT (0x0a) ref #1 Object Player
+     * ```
+     *
+     * @returns 文本
+     */
+    toText(): string {
+        const lines: string[] = [];
+        const render = (node: AMFInspectNode, depth: number): void => {
+            const indent = '  '.repeat(depth);
+            let line = `${hex(node.start)}-${hex(node.end)} ${indent}${formatKey(node.key)}`
+                + `AMF${node.version}.${node.markerName} (0x${hex(node.marker, 2)})`;
+            if (node.reference !== null) {
+                line += ` ref #${node.reference}`;
+            }
+            if (node.trait !== null) {
+                const trait = node.trait;
+                line += ` trait #${trait.index} ${trait.inline ? 'inline' : 'ref'}`;
+                if (trait.className) {
+                    line += ' ' + trait.className;
+                }
+                if (trait.dynamic) {
+                    line += ' dynamic';
+                }
+                if (trait.externalizable) {
+                    line += ' externalizable';
+                }
+                if (trait.fields.length > 0) {
+                    line += ` {${trait.fields.join(', ')}}`;
+                }
+            }
+            line += node.complete ? ' ' + formatValue(node.value) : ' (incomplete)';
+            lines.push(line);
+            for (let i = 0; i < node.children.length; i++) {
+                render(node.children[i], depth + 1);
+            }
+        };
+        for (let i = 0; i < this.nodes.length; i++) {
+            render(this.nodes[i], 0);
+        }
+        if (this.error) {
+            lines.push('error: ' + this.error.message);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * 转换为 JSON 兼容的对象（JSON.stringify 时自动调用），容器的值只保留类型和长度
+     *
+     * @returns JSON 兼容的对象
+     */
+    toJSON(): Record<string, any> {
+        const convert = (node: AMFInspectNode): Record<string, any> => ({
+            key: node.key,
+            start: node.start,
+            end: node.end,
+            version: node.version,
+            marker: node.marker,
+            markerName: node.markerName,
+            reference: node.reference,
+            trait: node.trait,
+            value: node.complete ? summarize(node.value) : null,
+            complete: node.complete,
+            children: node.children.map(convert)
+        });
+        const error = this.error;
+        return {
+            length: this.length,
+            error: error === null ? null : {
+                code: error instanceof AMFError ? error.code : null,
+                message: error.message,
+                offset: error instanceof AMFError ? error.offset : null
+            },
+            nodes: this.nodes.map(convert)
+        };
+    }
+}
+
+/**
+ * 解码时建立查看树的观察者
+ */
+class InspectObserver implements AMFDecodeObserver {
+    /** 顶层值 */
+    public nodes: AMFInspectNode[];
+
+    /** 正在解码的值（从外到内） */
+    public stack: AMFInspectNode[];
+
+    /** 被查看的数据 */
+    private bytes: Uint8Array;
+
+    /** 下一个值在容器中的键或下标 */
+    private pendingKey: AMFPathSegment | null;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.nodes = [];
+        this.stack = [];
+        this.pendingKey = null;
+    }
+
+    enter(marker: number, offset: number, version: number): void {
+        const node: AMFInspectNode = {
+            key: this.pendingKey,
+            start: offset,
+            end: offset,
+            version,
+            marker,
+            markerName: getMarkerName(marker, version),
+            reference: getReference(this.bytes, marker, offset, version),
+            trait: null,
+            value: undefined,
+            complete: false,
+            children: []
+        };
+        this.pendingKey = null;
+        const parent = this.stack[this.stack.length - 1];
+        (parent ? parent.children : this.nodes).push(node);
+        this.stack.push(node);
+    }
+
+    key(segment: AMFPathSegment): void {
+        this.pendingKey = segment;
+    }
+
+    trait(trait: AMFTrait, index: number, inline: boolean): void {
+        const node = this.stack[this.stack.length - 1];
+        if (node) {
+            node.trait = {
+                index,
+                inline,
+                className: trait.name,
+                dynamic: trait.dynamic,
+                externalizable: trait.externalizable,
+                fields: trait.staticFields.slice()
+            };
+        }
+    }
+
+    exit(value: any, offset: number): void {
+        const node = this.stack.pop();
+        if (node) {
+            node.end = offset;
+            node.value = value;
+            node.complete = true;
+        }
+        // 向量元素没有类型标记，为其设置的键不会被 enter 使用
+        this.pendingKey = null;
+    }
+}
+
+/**
+ * 查看 AMF 数据：解码其中所有的顶层值并记录每个值的位置和编码方式
+ *
+ * 数据有误时不抛出错误，返回出错之前读出的部分，错误保存在 error 中
+ *
+ * @example
+ * ```typescript
+ * const inspection = inspect(bytes);
+ * console.log(inspection.toText());
+ * fs.writeFileSync('payload.json', JSON.stringify(inspection, null, 2));
+ * ```
+ *
+ * @param bytes - AMF 数据
+ * @param context - 上下文或解码器选项
+ * @param version - AMF 版本（0 或 3），默认为 3
+ * @returns 查看结果
+ */
+export function inspect(
+    bytes: Uint8Array,
+    context: AMFContext | AMFDecoderOptions = AMFContext.defaultContext,
+    version: number = 3
+): AMFInspection {
+    const decoder = version === 0 ? new AMF0Decoder(bytes, context) : new AMFDecoder(bytes, context);
+    const observer = new InspectObserver(bytes);
+    decoder.setObserver(observer);
+    try {
+        decoder.decodeAll();
+    } catch (e) {
+        if (!(e instanceof Error)) {
+            throw e;
+        }
+        const end = e instanceof AMFError ? e.offset : decoder.getPosition();
+        for (let i = 0; i < observer.stack.length; i++) {
+            observer.stack[i].end = Math.max(end, observer.stack[i].start);
+        }
+        return new AMFInspection(observer.nodes, bytes.length, e);
+    }
+    return new AMFInspection(observer.nodes, bytes.length);
+}
+
+export default inspect;
@@ -0,0 +1,558 @@
+/**
+ * Flex 消息模块
+ *
+ * 实现 BlazeDS / LCDS 使用的 flex.messaging.messages 消息层次：
+ * AbstractMessage、AsyncMessage、AcknowledgeMessage、CommandMessage、ErrorMessage、RemotingMessage。
+ *
+ * 完整形式的消息按普通类型化对象编码；
+ * AcknowledgeMessage / AsyncMessage / CommandMessage 另有紧凑的可外部化形式
+ * （DSK / DSA / DSC），使用标志字节记录哪些字段存在，UUID 以 16 字节 ByteArray 写入。
+ */
+
+import { Serializable } from './classes';
+import type { AMFEncoder } from './encoder';
+import type { AMFDecoder } from './decoder';
+
+/** 标志字节中表示“后面还有标志字节”的位 */
+const HAS_NEXT_FLAG = 0x80;
+
+/** UUID 格式（Flex UIDUtil 使用大写十六进制） */
+const UID_PATTERN = /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/;
+
+/**
+ * 生成一个 Flex 格式的 UUID
+ */
+export function createUID(): string {
+    const bytes = new Uint8Array(16);
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = Math.floor(Math.random() * 256);
+        }
+    }
+    bytes[6] = (bytes[6] & 0x0F) | 0x40;
+    bytes[8] = (bytes[8] & 0x3F) | 0x80;
+    return bytesToUID(bytes);
+}
+
+/**
+ * 16 字节转换为 UUID 字符串
+ */
+function bytesToUID(bytes: Uint8Array): string {
+    let hex = '';
+    for (let i = 0; i < bytes.length; i++) {
+        hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16).toUpperCase();
+    }
+    return hex.slice(0, 8) + '-' + hex.slice(8, 12) + '-' + hex.slice(12, 16) + '-'
+        + hex.slice(16, 20) + '-' + hex.slice(20, 32);
+}
+
+/**
+ * UUID 字符串转换为 16 字节，不是合法 UUID 时返回 null
+ */
+function uidToBytes(uid: any): Uint8Array | null {
+    if (typeof uid !== 'string' || !UID_PATTERN.test(uid)) {
+        return null;
+    }
+    const hex = uid.replace(/-/g, '');
+    const bytes = new Uint8Array(16);
+    for (let i = 0; i < 16; i++) {
+        bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * 读取标志字节序列（最高位为 1 表示后面还有标志字节）
+ */
+function readFlags(decoder: AMFDecoder): number[] {
+    const flags: number[] = [];
+    let flag = HAS_NEXT_FLAG;
+    while ((flag & HAS_NEXT_FLAG) !== 0) {
+        flag = decoder.readUInt8();
+        flags.push(flag);
+    }
+    return flags;
+}
+
+/**
+ * 跳过当前版本不认识的字段（为了向前兼容，标志位对应的值仍然需要读出）
+ */
+function skipUnknownFields(decoder: AMFDecoder, flags: number, reservedPosition: number): void {
+    if ((flags >> reservedPosition) === 0) {
+        return;
+    }
+    for (let j = reservedPosition; j < 6; j++) {
+        if (((flags >> j) & 1) !== 0) {
+            decoder.decode();
+        }
+    }
+}
+
+/**
+ * 消息基类（flex.messaging.messages.AbstractMessage）
+ */
+export class AbstractMessage extends Serializable {
+    /** 目标端点 ID 头 */
+    static readonly DESTINATION_CLIENT_ID_HEADER = 'DSDstClientId';
+
+    /** 端点头 */
+    static readonly ENDPOINT_HEADER = 'DSEndpoint';
+
+    /** FlexClient ID 头 */
+    static readonly FLEX_CLIENT_ID_HEADER = 'DSId';
+
+    /** 远程凭证头 */
+    static readonly REMOTE_CREDENTIALS_HEADER = 'DSRemoteCredentials';
+
+    /** 请求超时头 */
+    static readonly REQUEST_TIMEOUT_HEADER = 'DSRequestTimeout';
+
+    /** 消息体 */
+    public body: any = {};
+
+    /** 客户端 ID */
+    public clientId: string | null = null;
+
+    /** 目标服务（紧凑形式中未写出时为 null） */
+    public destination: string | null = '';
+
+    /** 消息头（紧凑形式中未写出时为 null） */
+    public headers: Record<string, any> | null = {};
+
+    /** 消息 ID（紧凑形式中未写出时为 null） */
+    public messageId: string | null = createUID();
+
+    /** 时间戳（毫秒） */
+    public timestamp: number = 0;
+
+    /** 存活时间（毫秒） */
+    public timeToLive: number = 0;
+
+    /**
+     * @param className - AMF 类名
+     */
+    constructor(className: string = 'flex.messaging.messages.AbstractMessage') {
+        super(className, false);
+    }
+
+    /**
+     * 读取紧凑形式的字段
+     *
+     * 标志位中不存在的字段按 null / 0 处理，以便再次写出时得到相同的标志位
+     */
+    readExternal(decoder: AMFDecoder): void {
+        this.clientId = null;
+        this.destination = null;
+        this.headers = null;
+        this.messageId = null;
+        this.timestamp = 0;
+        this.timeToLive = 0;
+
+        const flagsArray = readFlags(decoder);
+        for (let i = 0; i < flagsArray.length; i++) {
+            const flags = flagsArray[i];
+            let reservedPosition = 0;
+
+            if (i === 0) {
+                this.body = (flags & 0x01) !== 0 ? decoder.decode() : null;
+                if ((flags & 0x02) !== 0) {
+                    this.clientId = decoder.decode();
+                }
+                if ((flags & 0x04) !== 0) {
+                    this.destination = decoder.decode();
+                }
+                if ((flags & 0x08) !== 0) {
+                    this.headers = decoder.decode();
+                }
+                if ((flags & 0x10) !== 0) {
+                    this.messageId = decoder.decode();
+                }
+                if ((flags & 0x20) !== 0) {
+                    this.timestamp = decoder.decode();
+                }
+                if ((flags & 0x40) !== 0) {
+                    this.timeToLive = decoder.decode();
+                }
+                reservedPosition = 7;
+            } else if (i === 1) {
+                if ((flags & 0x01) !== 0) {
+                    this.clientId = bytesToUID(decoder.decode());
+                }
+                if ((flags & 0x02) !== 0) {
+                    this.messageId = bytesToUID(decoder.decode());
+                }
+                reservedPosition = 2;
+            }
+
+            skipUnknownFields(decoder, flags, reservedPosition);
+        }
+    }
+
+    /**
+     * 写入紧凑形式的字段
+     */
+    writeExternal(encoder: AMFEncoder): void {
+        const clientIdBytes = uidToBytes(this.clientId);
+        const messageIdBytes = uidToBytes(this.messageId);
+
+        let flags = 0;
+        if (this.body !== null && this.body !== undefined) {
+            flags |= 0x01;
+        }
+        if (this.clientId !== null && this.clientId !== undefined && !clientIdBytes) {
+            flags |= 0x02;
+        }
+        if (this.destination !== null && this.destination !== undefined) {
+            flags |= 0x04;
+        }
+        if (this.headers !== null && this.headers !== undefined) {
+            flags |= 0x08;
+        }
+        if (this.messageId !== null && this.messageId !== undefined && !messageIdBytes) {
+            flags |= 0x10;
+        }
+        if (this.timestamp) {
+            flags |= 0x20;
+        }
+        if (this.timeToLive) {
+            flags |= 0x40;
+        }
+        if (clientIdBytes || messageIdBytes) {
+            flags |= HAS_NEXT_FLAG;
+        }
+        encoder.writeByte(flags);
+
+        let bytesFlags = 0;
+        if (clientIdBytes) {
+            bytesFlags |= 0x01;
+        }
+        if (messageIdBytes) {
+            bytesFlags |= 0x02;
+        }
+        if (bytesFlags !== 0) {
+            encoder.writeByte(bytesFlags);
+        }
+
+        if ((flags & 0x01) !== 0) {
+            encoder.writeObject(this.body);
+        }
+        if ((flags & 0x02) !== 0) {
+            encoder.writeObject(this.clientId);
+        }
+        if ((flags & 0x04) !== 0) {
+            encoder.writeObject(this.destination);
+        }
+        if ((flags & 0x08) !== 0) {
+            encoder.writeObject(this.headers);
+        }
+        if ((flags & 0x10) !== 0) {
+            encoder.writeObject(this.messageId);
+        }
+        if ((flags & 0x20) !== 0) {
+            encoder.writeObject(this.timestamp);
+        }
+        if ((flags & 0x40) !== 0) {
+            encoder.writeObject(this.timeToLive);
+        }
+        if (clientIdBytes) {
+            encoder.writeObject(clientIdBytes);
+        }
+        if (messageIdBytes) {
+            encoder.writeObject(messageIdBytes);
+        }
+    }
+}
+
+/**
+ * 异步消息（flex.messaging.messages.AsyncMessage）
+ */
+export class AsyncMessage extends AbstractMessage {
+    /** 子主题头 */
+    static readonly SUBTOPIC_HEADER = 'DSSubtopic';
+
+    /** 关联的请求消息 ID（紧凑形式中未写出时为 null） */
+    public correlationId: string | null = '';
+
+    /**
+     * @param className - AMF 类名
+     */
+    constructor(className: string = 'flex.messaging.messages.AsyncMessage') {
+        super(className);
+    }
+
+    readExternal(decoder: AMFDecoder): void {
+        super.readExternal(decoder);
+        this.correlationId = null;
+
+        const flagsArray = readFlags(decoder);
+        for (let i = 0; i < flagsArray.length; i++) {
+            const flags = flagsArray[i];
+            let reservedPosition = 0;
+
+            if (i === 0) {
+                if ((flags & 0x01) !== 0) {
+                    this.correlationId = decoder.decode();
+                }
+                if ((flags & 0x02) !== 0) {
+                    this.correlationId = bytesToUID(decoder.decode());
+                }
+                reservedPosition = 2;
+            }
+
+            skipUnknownFields(decoder, flags, reservedPosition);
+        }
+    }
+
+    writeExternal(encoder: AMFEncoder): void {
+        super.writeExternal(encoder);
+
+        const correlationIdBytes = uidToBytes(this.correlationId);
+        let flags = 0;
+        if (this.correlationId !== null && this.correlationId !== undefined && !correlationIdBytes) {
+            flags |= 0x01;
+        }
+        if (correlationIdBytes) {
+            flags |= 0x02;
+        }
+        encoder.writeByte(flags);
+
+        if ((flags & 0x01) !== 0) {
+            encoder.writeObject(this.correlationId);
+        }
+        if (correlationIdBytes) {
+            encoder.writeObject(correlationIdBytes);
+        }
+    }
+}
+
+/**
+ * 确认消息（flex.messaging.messages.AcknowledgeMessage），远程调用成功时 body 为返回值
+ */
+export class AcknowledgeMessage extends AsyncMessage {
+    /**
+     * @param className - AMF 类名
+     */
+    constructor(className: string = 'flex.messaging.messages.AcknowledgeMessage') {
+        super(className);
+    }
+
+    readExternal(decoder: AMFDecoder): void {
+        super.readExternal(decoder);
+
+        const flagsArray = readFlags(decoder);
+        for (let i = 0; i < flagsArray.length; i++) {
+            skipUnknownFields(decoder, flagsArray[i], 0);
+        }
+    }
+
+    writeExternal(encoder: AMFEncoder): void {
+        super.writeExternal(encoder);
+        encoder.writeByte(0);
+    }
+}
+
+/**
+ * 错误消息（flex.messaging.messages.ErrorMessage），没有紧凑形式
+ */
+export class ErrorMessage extends AcknowledgeMessage {
+    /** 错误码 */
+    public faultCode: string = '';
+
+    /** 错误描述 */
+    public faultString: string = '';
+
+    /** 错误详情 */
+    public faultDetail: string = '';
+
+    /** 根本原因 */
+    public rootCause: any = null;
+
+    /** 扩展数据 */
+    public extendedData: any = null;
+
+    /**
+     * @param className - AMF 类名
+     */
+    constructor(className: string = 'flex.messaging.messages.ErrorMessage') {
+        super(className);
+    }
+}
+
+/**
+ * 命令消息（flex.messaging.messages.CommandMessage），用于 ping、登录、订阅等
+ */
+export class CommandMessage extends AsyncMessage {
+    static readonly SUBSCRIBE_OPERATION = 0;
+    static readonly UNSUBSCRIBE_OPERATION = 1;
+    static readonly POLL_OPERATION = 2;
+    static readonly CLIENT_SYNC_OPERATION = 4;
+    static readonly CLIENT_PING_OPERATION = 5;
+    static readonly CLUSTER_REQUEST_OPERATION = 7;
+    static readonly LOGIN_OPERATION = 8;
+    static readonly LOGOUT_OPERATION = 9;
+    static readonly SUBSCRIPTION_INVALIDATE_OPERATION = 10;
+    static readonly MULTI_SUBSCRIBE_OPERATION = 11;
+    static readonly DISCONNECT_OPERATION = 12;
+    static readonly TRIGGER_CONNECT_OPERATION = 13;
+    static readonly UNKNOWN_OPERATION = 10000;
+
+    /** 消息协议版本头（设置后服务端可以回复紧凑形式的消息） */
+    static readonly MESSAGING_VERSION = 'DSMessagingVersion';
+
+    /** 操作类型 */
+    public operation: number = CommandMessage.UNKNOWN_OPERATION;
+
+    /**
+     * @param className - AMF 类名
+     */
+    constructor(className: string = 'flex.messaging.messages.CommandMessage') {
+        super(className);
+    }
+
+    readExternal(decoder: AMFDecoder): void {
+        super.readExternal(decoder);
+
+        const flagsArray = readFlags(decoder);
+        for (let i = 0; i < flagsArray.length; i++) {
+            const flags = flagsArray[i];
+            let reservedPosition = 0;
+
+            if (i === 0) {
+                if ((flags & 0x01) !== 0) {
+                    this.operation = decoder.decode();
+                }
+                reservedPosition = 1;
+            }
+
+            skipUnknownFields(decoder, flags, reservedPosition);
+        }
+    }
+
+    writeExternal(encoder: AMFEncoder): void {
+        super.writeExternal(encoder);
+
+        const flags = this.operation !== 0 ? 0x01 : 0;
+        encoder.writeByte(flags);
+        if (flags !== 0) {
+            encoder.writeObject(this.operation);
+        }
+    }
+}
+
+/**
+ * 远程调用消息（flex.messaging.messages.RemotingMessage），body 为参数数组
+ *
+ * @example
+ * ```typescript
+ * const message = new RemotingMessage();
+ * message.destination = 'userService';
+ * message.operation = 'getUser';
+ * message.body = [42];
+ * ```
+ */
+export class RemotingMessage extends AbstractMessage {
+    /** 调用的方法名 */
+    public operation: string = '';
+
+    /** 服务端类名（通常由服务端配置决定，可以为 null） */
+    public source: string | null = null;
+
+    /**
+     * @param className - AMF 类名
+     */
+    constructor(className: string = 'flex.messaging.messages.RemotingMessage') {
+        super(className);
+    }
+}
+
+/**
+ * 紧凑形式的确认消息（DSK）
+ */
+export class AcknowledgeMessageExt extends AcknowledgeMessage {
+    /**
+     * @param message - 要转换为紧凑形式的消息，字段会被复制
+     */
+    constructor(message?: AcknowledgeMessage) {
+        super('DSK');
+        this.__externalizable = true;
+        if (message) {
+            copyFields(this, message);
+        }
+    }
+
+    write(encoder: AMFEncoder): void {
+        this.writeExternal(encoder);
+    }
+
+    static read(decoder: AMFDecoder): AcknowledgeMessageExt {
+        const message = new AcknowledgeMessageExt();
+        message.readExternal(decoder);
+        return message;
+    }
+}
+
+/**
+ * 紧凑形式的异步消息（DSA）
+ */
+export class AsyncMessageExt extends AsyncMessage {
+    /**
+     * @param message - 要转换为紧凑形式的消息，字段会被复制
+     */
+    constructor(message?: AsyncMessage) {
+        super('DSA');
+        this.__externalizable = true;
+        if (message) {
+            copyFields(this, message);
+        }
+    }
+
+    write(encoder: AMFEncoder): void {
+        this.writeExternal(encoder);
+    }
+
+    static read(decoder: AMFDecoder): AsyncMessageExt {
+        const message = new AsyncMessageExt();
+        message.readExternal(decoder);
+        return message;
+    }
+}
+
+/**
+ * 紧凑形式的命令消息（DSC）
+ */
+export class CommandMessageExt extends CommandMessage {
+    /**
+     * @param message - 要转换为紧凑形式的消息，字段会被复制
+     */
+    constructor(message?: CommandMessage) {
+        super('DSC');
+        this.__externalizable = true;
+        if (message) {
+            copyFields(this, message);
+        }
+    }
+
+    write(encoder: AMFEncoder): void {
+        this.writeExternal(encoder);
+    }
+
+    static read(decoder: AMFDecoder): CommandMessageExt {
+        const message = new CommandMessageExt();
+        message.readExternal(decoder);
+        return message;
+    }
+}
+
+/**
+ * 复制消息字段（不包括 __ 开头的内部字段）
+ */
+function copyFields(target: Record<string, any>, source: Record<string, any>): void {
+    const keys = Object.keys(source);
+    for (let i = 0; i < keys.length; i++) {
+        if (keys[i].indexOf('__') !== 0) {
+            target[keys[i]] = source[keys[i]];
+        }
+    }
+}
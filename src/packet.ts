@@ -0,0 +1,182 @@
+/**
+ * AMF 远程调用数据包模块
+ *
+ * 实现 Flash Remoting 使用的完整 AMF 数据包（信封）：
+ * 版本号、header 列表和 body（消息）列表。
+ * header/body 的值使用 AMF0 编码（version 为 3 时通过 AMF3_OBJECT 切换到 AMF3），
+ * 按规范每个 header/body 都使用独立的引用表。
+ */
+
+import { AMF0Encoder } from './amf0-encoder';
+import { AMF0Decoder } from './amf0-decoder';
+import { Writer } from './writer';
+import { AMFContext } from './context';
+
+/** 未知长度标记（-1），解码时忽略长度字段直接解析值 */
+export const AMF_UNKNOWN_LENGTH = 0xFFFFFFFF;
+
+/**
+ * AMF 数据包 header
+ */
+export class AMFHeader {
+    /** header 名称 */
+    public name: string;
+
+    /** 接收方是否必须理解该 header */
+    public mustUnderstand: boolean;
+
+    /** header 的值 */
+    public value: any;
+
+    /**
+     * @param name - header 名称
+     * @param mustUnderstand - 接收方是否必须理解该 header
+     * @param value - header 的值
+     */
+    constructor(name: string, mustUnderstand: boolean = false, value: any = null) {
+        this.name = name;
+        this.mustUnderstand = mustUnderstand;
+        this.value = value;
+    }
+}
+
+/**
+ * AMF 数据包 body（消息）
+ */
+export class AMFMessage {
+    /** 目标 URI，请求中为 "Service.method"，响应中为 "/1/onResult" 等 */
+    public targetURI: string;
+
+    /** 响应 URI，请求中为 "/1" 等，响应中通常为 "null" 或空 */
+    public responseURI: string;
+
+    /** 消息的值 */
+    public value: any;
+
+    /**
+     * @param targetURI - 目标 URI
+     * @param responseURI - 响应 URI
+     * @param value - 消息的值
+     */
+    constructor(targetURI: string, responseURI: string, value: any = null) {
+        this.targetURI = targetURI;
+        this.responseURI = responseURI;
+        this.value = value;
+    }
+}
+
+/**
+ * AMF 数据包
+ *
+ * @example
+ * ```typescript
+ * const packet = new AMFPacket(3);
+ * packet.messages.push(new AMFMessage('UserService.getUser', '/1', [42]));
+ * const bytes = packet.encode();
+ *
+ * const decoded = AMFPacket.decode(bytes);
+ * console.log(decoded.messages[0].targetURI);
+ * ```
+ */
+export class AMFPacket {
+    /** 版本号（0 或 3），3 表示值通过 AMF3 编码 */
+    public version: number;
+
+    /** header 列表 */
+    public headers: AMFHeader[];
+
+    /** body（消息）列表 */
+    public messages: AMFMessage[];
+
+    /**
+     * @param version - 版本号，默认为 3
+     */
+    constructor(version: number = 3) {
+        this.version = version;
+        this.headers = [];
+        this.messages = [];
+    }
+
+    /**
+     * 编码整个数据包
+     *
+     * @param context - 编码使用的上下文，默认为全局默认上下文
+     */
+    encode(context: AMFContext = AMFContext.defaultContext): Uint8Array {
+        const writer = new Writer();
+        writer.writeUInt16BE(this.version);
+
+        writer.writeUInt16BE(this.headers.length);
+        for (let i = 0; i < this.headers.length; i++) {
+            const header = this.headers[i];
+            writer.writeString(header.name);
+            writer.writeByte(header.mustUnderstand ? 1 : 0);
+            this.writeValue(writer, header.value, context);
+        }
+
+        writer.writeUInt16BE(this.messages.length);
+        for (let i = 0; i < this.messages.length; i++) {
+            const message = this.messages[i];
+            writer.writeString(message.targetURI);
+            writer.writeString(message.responseURI);
+            this.writeValue(writer, message.value, context);
+        }
+
+        return writer.getBuffer();
+    }
+
+    /**
+     * 写入一个带长度前缀的值，每个值使用新的编码器（即独立的引用表）
+     */
+    private writeValue(writer: Writer, value: any, context: AMFContext): void {
+        const encoder = new AMF0Encoder(this.version === 3, context);
+        encoder.writeObject(value);
+        const bytes = encoder.getBuffer();
+        writer.writeUInt32BE(bytes.length);
+        writer.write(bytes);
+    }
+
+    /**
+     * 解码整个数据包
+     *
+     * @param data - 数据包字节
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 解码后的数据包
+     */
+    static decode(data: Uint8Array, context: AMFContext = AMFContext.defaultContext): AMFPacket {
+        const decoder = new AMF0Decoder(data, context);
+        const packet = new AMFPacket(decoder.readUInt16BE());
+
+        const headerCount = decoder.readUInt16BE();
+        for (let i = 0; i < headerCount; i++) {
+            const name = decoder.readString();
+            const mustUnderstand = decoder.readUInt8() !== 0;
+            const end = valueEnd(decoder);
+            decoder.resetReferences();
+            packet.headers.push(new AMFHeader(name, mustUnderstand, decoder.decodeValue(end)));
+        }
+
+        const messageCount = decoder.readUInt16BE();
+        for (let i = 0; i < messageCount; i++) {
+            const targetURI = decoder.readString();
+            const responseURI = decoder.readString();
+            const end = valueEnd(decoder);
+            decoder.resetReferences();
+            packet.messages.push(new AMFMessage(targetURI, responseURI, decoder.decodeValue(end)));
+        }
+
+        return packet;
+    }
+}
+
+/**
+ * 读取值的长度字段，换算为值的数据结束位置
+ *
+ * @returns 结束位置，长度为 AMF_UNKNOWN_LENGTH 时为 null
+ */
+function valueEnd(decoder: AMF0Decoder): number | null {
+    const length = decoder.readUInt32BE();
+    return length === AMF_UNKNOWN_LENGTH ? null : decoder.getPosition() + length;
+}
+
+export default AMFPacket;
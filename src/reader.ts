@@ -5,6 +5,8 @@
  * 专为浏览器环境设计，使用 Uint8Array 和 DataView 替代 Node.js 的 Buffer
  */
 
+import { AMFUnexpectedEOFError } from './errors';
+
 /**
  * AMF 头部信息接口
  *
@@ -18,6 +20,12 @@ export interface AMFHeader {
     value: number;
 }
 
+/** 共享的 UTF-8 解码器 */
+const textDecoder = new TextDecoder('utf-8');
+
+/** 不超过该长度的纯 ASCII 字符串直接逐字节转换，不经过 TextDecoder */
+const SHORT_ASCII_LENGTH = 32;
+
 /**
  * 二进制数据读取器类
  *
@@ -42,15 +50,24 @@ export class Reader {
     /** 当前读取位置 */
     protected position: number;
 
+    /**
+     * 读取字节数组时是否直接返回原数据的视图（subarray）而不复制
+     *
+     * 视图与原数据共享内存：修改原数据会影响读出的字节数组，反之亦然
+     */
+    protected zeroCopy: boolean;
+
     /**
      * 创建一个新的读取器
      *
      * @param data - 要读取的二进制数据
+     * @param zeroCopy - 读取字节数组时是否返回视图而不复制，默认为 false
      */
-    constructor(data: Uint8Array) {
+    constructor(data: Uint8Array, zeroCopy: boolean = false) {
         this.data = data;
         this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
         this.position = 0;
+        this.zeroCopy = zeroCopy;
     }
 
     /**
@@ -71,6 +88,18 @@ export class Reader {
         this.position = pos;
     }
 
+    /**
+     * 替换要读取的数据并设置读取位置（流式解码时用于接上新到达的数据）
+     *
+     * @param data - 新的数据
+     * @param position - 新的位置，默认为 0
+     */
+    setData(data: Uint8Array, position: number = 0): void {
+        this.data = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        this.position = position;
+    }
+
     /**
      * 获取剩余可读字节数
      *
@@ -84,11 +113,11 @@ export class Reader {
      * 检查是否还有足够的字节可读
      *
      * @param length - 需要的字节数
-     * @throws 如果剩余字节不足
+     * @throws AMFUnexpectedEOFError 如果剩余字节不足
      */
     private checkAvailable(length: number): void {
         if (this.position + length > this.data.length) {
-            throw new Error(`没有足够的 ${length} 字节可读，当前位置: ${this.position}，总长度: ${this.data.length}`);
+            throw new AMFUnexpectedEOFError(this.position, this.position + length, this.data.length);
         }
     }
 
@@ -107,8 +136,10 @@ export class Reader {
             return this.data[this.position++];
         }
 
-        // 读取多个字节，返回 Uint8Array
-        const result = this.data.slice(this.position, this.position + length);
+        // 读取多个字节，返回 Uint8Array（zeroCopy 时为原数据的视图）
+        const result = this.zeroCopy
+            ? this.data.subarray(this.position, this.position + length)
+            : this.data.slice(this.position, this.position + length);
         this.position += length;
         return result;
     }
@@ -216,12 +247,24 @@ export class Reader {
      */
     readUTF8String(length: number): string {
         this.checkAvailable(length);
-        const bytes = this.data.slice(this.position, this.position + length);
+        const start = this.position;
         this.position += length;
 
-        // 使用 TextDecoder 将 UTF-8 字节解码为字符串
-        const decoder = new TextDecoder('utf-8');
-        return decoder.decode(bytes);
+        // 短的纯 ASCII 字符串（对象键、类名等）逐字节转换
+        if (length <= SHORT_ASCII_LENGTH) {
+            let result = '';
+            for (let i = start; i < start + length; i++) {
+                const byte = this.data[i];
+                if (byte >= 0x80) {
+                    return textDecoder.decode(this.data.subarray(start, start + length));
+                }
+                result += String.fromCharCode(byte);
+            }
+            return result;
+        }
+
+        // 使用共享的 TextDecoder 直接解码原数据的视图
+        return textDecoder.decode(this.data.subarray(start, start + length));
     }
 
     /**
@@ -0,0 +1,119 @@
+/**
+ * 类别名注册表模块
+ *
+ * 对应 ActionScript 的 registerClassAlias / getClassByAlias，
+ * 把 AMF 中的类名（别名）映射到 TypeScript 类：
+ * 解码器据此实例化类型化对象，编码器据此查找类对应的别名。
+ */
+
+/**
+ * 可注册的类（必须可以无参构造）
+ */
+export type ClassConstructor<T = any> = new () => T;
+
+/**
+ * 解码遇到未注册类名时的处理策略
+ *
+ * - `serializable`: 生成带 __class 的 Serializable 对象（默认）
+ * - `object`: 生成普通对象，丢弃类名
+ * - `error`: 抛出错误
+ */
+export type UnknownClassPolicy = 'serializable' | 'object' | 'error';
+
+/**
+ * 类别名注册表
+ *
+ * @example
+ * ```typescript
+ * class User extends Serializable {
+ *     name = '';
+ *     greet(): string { return 'hi ' + this.name; }
+ * }
+ *
+ * registerClassAlias('com.example.User', User);
+ * const user = new AMFDecoder(bytes).decode(); // User 实例
+ * ```
+ */
+export class AMFClassRegistry {
+    /** 全局默认注册表，registerClassAlias 写入的就是它 */
+    static defaultRegistry: AMFClassRegistry = new AMFClassRegistry();
+
+    /** 别名 -> 类 */
+    private aliasToClass: Map<string, ClassConstructor>;
+
+    /** 类 -> 别名 */
+    private classToAlias: Map<ClassConstructor, string>;
+
+    constructor() {
+        this.aliasToClass = new Map();
+        this.classToAlias = new Map();
+    }
+
+    /**
+     * 注册类别名
+     *
+     * @param alias - AMF 中的类名
+     * @param cls - 对应的类
+     */
+    register(alias: string, cls: ClassConstructor): void {
+        const previous = this.aliasToClass.get(alias);
+        if (previous) {
+            this.classToAlias.delete(previous);
+        }
+        this.aliasToClass.set(alias, cls);
+        this.classToAlias.set(cls, alias);
+    }
+
+    /**
+     * 取消注册类别名
+     *
+     * @param alias - AMF 中的类名
+     */
+    unregister(alias: string): void {
+        const cls = this.aliasToClass.get(alias);
+        if (cls) {
+            this.classToAlias.delete(cls);
+        }
+        this.aliasToClass.delete(alias);
+    }
+
+    /**
+     * 根据别名获取类
+     *
+     * @param alias - AMF 中的类名
+     * @returns 注册的类，未注册时返回 undefined
+     */
+    getClass(alias: string): ClassConstructor | undefined {
+        return this.aliasToClass.get(alias);
+    }
+
+    /**
+     * 根据类获取别名
+     *
+     * @param cls - 类
+     * @returns 注册的别名，未注册时返回 undefined
+     */
+    getAlias(cls: Function): string | undefined {
+        return this.classToAlias.get(cls as ClassConstructor);
+    }
+}
+
+/**
+ * 在全局默认注册表中注册类别名（对应 AS3 的 flash.net.registerClassAlias）
+ *
+ * @param alias - AMF 中的类名
+ * @param cls - 对应的类
+ */
+export function registerClassAlias(alias: string, cls: ClassConstructor): void {
+    AMFClassRegistry.defaultRegistry.register(alias, cls);
+}
+
+/**
+ * 从全局默认注册表中根据别名获取类（对应 AS3 的 flash.net.getClassByAlias）
+ *
+ * @param alias - AMF 中的类名
+ * @returns 注册的类，未注册时返回 undefined
+ */
+export function getClassByAlias(alias: string): ClassConstructor | undefined {
+    return AMFClassRegistry.defaultRegistry.getClass(alias);
+}
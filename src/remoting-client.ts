@@ -0,0 +1,247 @@
+/**
+ * Flash Remoting 客户端模块
+ *
+ * 对应 Flash 的 NetConnection.call：把 "Service.method" 调用编码为 AMF 数据包发送到网关，
+ * 同一轮事件循环中的多次调用合并为一个数据包，响应 URI 依次为 /1、/2 ……，
+ * 网关返回 "/n/onResult" 时 resolve，返回 "/n/onStatus" 时 reject。
+ */
+
+import { AMFPacket, AMFHeader, AMFMessage } from './packet';
+import { AMFContext } from './context';
+
+/**
+ * 传输函数：把请求数据包发送到网关并返回响应数据包
+ */
+export type RemotingTransport = (url: string, body: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * 客户端选项
+ */
+export interface RemotingClientOptions {
+    /** 传输函数，默认使用 fetch */
+    transport?: RemotingTransport;
+
+    /** 编解码使用的上下文，默认为全局默认上下文 */
+    context?: AMFContext;
+
+    /** 数据包版本号（0 或 3），默认为 3 */
+    version?: number;
+
+    /** 是否把同一轮事件循环中的调用合并为一个数据包，默认为 true */
+    batch?: boolean;
+}
+
+/**
+ * 远程调用失败（网关返回 onStatus）
+ */
+export class RemotingError extends Error {
+    /** 网关返回的错误对象（通常带有 faultCode / faultString 或 code / description） */
+    public fault: any;
+
+    /**
+     * @param fault - 网关返回的错误对象
+     */
+    constructor(fault: any) {
+        super(getFaultMessage(fault));
+        this.name = 'RemotingError';
+        this.fault = fault;
+    }
+}
+
+/**
+ * 从错误对象中取出可读的错误描述
+ */
+function getFaultMessage(fault: any): string {
+    if (fault && typeof fault === 'object') {
+        const message = fault.faultString || fault.description || fault.message;
+        if (typeof message === 'string' && message !== '') {
+            return message;
+        }
+    }
+    if (typeof fault === 'string' && fault !== '') {
+        return fault;
+    }
+    return '远程调用失败';
+}
+
+/**
+ * 默认传输：以 application/x-amf 格式 POST 到网关
+ */
+export async function fetchTransport(url: string, body: Uint8Array): Promise<Uint8Array> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-amf' },
+        body: body as BodyInit
+    });
+    if (!response.ok) {
+        throw new Error('网关请求失败: HTTP ' + response.status);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * 等待响应的调用
+ */
+interface PendingCall {
+    message: AMFMessage;
+    resolve: (value: any) => void;
+    reject: (reason: any) => void;
+}
+
+/**
+ * Flash Remoting 客户端
+ *
+ * @example
+ * ```typescript
+ * const client = new RemotingClient('http://localhost/gateway');
+ * const [user, items] = await Promise.all([
+ *     client.call('UserService.getUser', 42),
+ *     client.call('ItemService.list')
+ * ]); // 两个调用在同一个数据包中发送
+ * ```
+ */
+export class RemotingClient {
+    /** 网关地址 */
+    public url: string;
+
+    /** 每个请求数据包都会带上的 header */
+    public headers: AMFHeader[];
+
+    private transport: RemotingTransport;
+
+    private context: AMFContext;
+
+    private version: number;
+
+    private batch: boolean;
+
+    /** 已分配的响应 URI 序号 */
+    private responseCounter: number;
+
+    /** 尚未发送的调用 */
+    private queue: PendingCall[];
+
+    /** 是否已经安排了一次发送 */
+    private flushScheduled: boolean;
+
+    /**
+     * @param url - 网关地址
+     * @param options - 客户端选项
+     */
+    constructor(url: string, options: RemotingClientOptions = {}) {
+        this.url = url;
+        this.headers = [];
+        this.transport = options.transport ?? fetchTransport;
+        this.context = options.context ?? AMFContext.defaultContext;
+        this.version = options.version ?? 3;
+        this.batch = options.batch ?? true;
+        this.responseCounter = 0;
+        this.queue = [];
+        this.flushScheduled = false;
+    }
+
+    /**
+     * 添加一个随每个请求发送的 header（对应 NetConnection.addHeader），同名 header 会被替换
+     *
+     * @param name - header 名称
+     * @param mustUnderstand - 网关是否必须理解该 header
+     * @param value - header 的值
+     */
+    addHeader(name: string, mustUnderstand: boolean = false, value: any = null): void {
+        this.removeHeader(name);
+        this.headers.push(new AMFHeader(name, mustUnderstand, value));
+    }
+
+    /**
+     * 移除 header
+     *
+     * @param name - header 名称
+     */
+    removeHeader(name: string): void {
+        this.headers = this.headers.filter(header => header.name !== name);
+    }
+
+    /**
+     * 调用远程方法
+     *
+     * @param target - 目标，如 "UserService.getUser"
+     * @param args - 参数
+     * @returns 网关返回的结果，网关返回 onStatus 时以 RemotingError reject
+     */
+    call(target: string, ...args: any[]): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const responseURI = '/' + (++this.responseCounter);
+            this.queue.push({ message: new AMFMessage(target, responseURI, args), resolve, reject });
+
+            if (!this.batch) {
+                this.flush();
+            } else if (!this.flushScheduled) {
+                this.flushScheduled = true;
+                Promise.resolve().then(() => this.flush());
+            }
+        });
+    }
+
+    /**
+     * 立即发送队列中的所有调用
+     */
+    flush(): Promise<void> {
+        this.flushScheduled = false;
+        const calls = this.queue;
+        this.queue = [];
+        if (calls.length === 0) {
+            return Promise.resolve();
+        }
+        return this.send(calls);
+    }
+
+    /**
+     * 把一组调用编码为一个数据包发送，并把响应分发给对应的调用
+     */
+    private async send(calls: PendingCall[]): Promise<void> {
+        let response: AMFPacket;
+        try {
+            const packet = new AMFPacket(this.version);
+            packet.headers = this.headers.slice();
+            for (let i = 0; i < calls.length; i++) {
+                packet.messages.push(calls[i].message);
+            }
+            const bytes = await this.transport(this.url, packet.encode(this.context));
+            response = AMFPacket.decode(bytes, this.context);
+        } catch (e) {
+            for (let i = 0; i < calls.length; i++) {
+                calls[i].reject(e);
+            }
+            return;
+        }
+
+        const pending = new Map<string, PendingCall>();
+        for (let i = 0; i < calls.length; i++) {
+            pending.set(calls[i].message.responseURI, calls[i]);
+        }
+
+        for (let i = 0; i < response.messages.length; i++) {
+            const message = response.messages[i];
+            const separator = message.targetURI.lastIndexOf('/');
+            const responseURI = message.targetURI.substring(0, separator);
+            const handler = message.targetURI.substring(separator + 1);
+            const call = pending.get(responseURI);
+            if (!call) {
+                continue;
+            }
+            pending.delete(responseURI);
+
+            if (handler === 'onResult') {
+                call.resolve(message.value);
+            } else {
+                call.reject(new RemotingError(message.value));
+            }
+        }
+
+        pending.forEach(call => {
+            call.reject(new Error('网关没有返回响应: ' + call.message.responseURI));
+        });
+    }
+}
+
+export default RemotingClient;
@@ -0,0 +1,327 @@
+/**
+ * RTMP 命令消息模块
+ *
+ * 编解码 RTMP 命令消息（类型 20：AMF0，类型 17：AMF3）和数据消息（类型 18：AMF0，类型 15：AMF3）的消息体。
+ * 命令消息依次包含命令名、事务 ID、命令对象和参数；数据消息只是一串值（如 @setDataFrame、onMetaData、元数据）。
+ * AMF3 形式的消息体以一个 0x00 字节开头，之后仍是 AMF0 编码，对象通过 AMF3_OBJECT（0x11）切换到 AMF3。
+ * 本模块只处理消息体，不处理 chunk stream 分块。
+ */
+
+import { AMF0Encoder } from './amf0-encoder';
+import { AMF0Decoder } from './amf0-decoder';
+import { AMFContext } from './context';
+import { ForcedTypeValue } from './classes';
+import { AMF0 } from './types';
+
+/**
+ * RTMP 消息类型 ID
+ */
+export const RTMPMessageType = {
+    /** AMF3 数据消息 */
+    AMF3_DATA: 15,
+
+    /** AMF3 命令消息 */
+    AMF3_COMMAND: 17,
+
+    /** AMF0 数据消息 */
+    AMF0_DATA: 18,
+
+    /** AMF0 命令消息 */
+    AMF0_COMMAND: 20
+} as const;
+
+/**
+ * 写入消息体中的一个值
+ *
+ * AMF3 模式下除 null / undefined 以外的值都通过 0x11 切换到 AMF3；
+ * AMF0 模式下普通对象按 AMF0 Object（0x03）写入，而不是 ECMA 数组，与 Flash Player 和常见服务器一致
+ */
+function writeValue(encoder: AMF0Encoder, value: any, amf3: boolean, plainObjectAsObject: boolean): void {
+    if (amf3 && value !== null && value !== undefined) {
+        encoder.writeAMF3Object(value);
+    } else if (plainObjectAsObject && value !== null && typeof value === 'object' && value.constructor === Object) {
+        encoder.writeObject(new ForcedTypeValue(value, AMF0.OBJECT));
+    } else {
+        encoder.writeObject(value);
+    }
+}
+
+/**
+ * 创建消息体解码器，AMF3 形式时跳过开头的 0x00
+ */
+function createDecoder(payload: Uint8Array, amf3: boolean, context: AMFContext): AMF0Decoder {
+    const decoder = new AMF0Decoder(payload, context);
+    if (amf3) {
+        decoder.readUInt8();
+    }
+    return decoder;
+}
+
+/**
+ * RTMP 命令消息
+ *
+ * @example
+ * ```typescript
+ * const connect = RTMPCommandMessage.connect({ app: 'live', tcUrl: 'rtmp://localhost/live' });
+ * const payload = connect.encode(); // 作为类型 connect.messageType 的消息发送
+ *
+ * const command = RTMPCommandMessage.decode(payload, RTMPMessageType.AMF0_COMMAND);
+ * console.log(command.name, command.transactionId, command.commandObject.app);
+ * ```
+ */
+export class RTMPCommandMessage {
+    /** 命令名 */
+    public name: string;
+
+    /** 事务 ID */
+    public transactionId: number;
+
+    /** 命令对象（没有时为 null） */
+    public commandObject: any;
+
+    /** 其余参数 */
+    public args: any[];
+
+    /** 是否使用 AMF3 形式（消息类型 17） */
+    public amf3: boolean;
+
+    /**
+     * @param name - 命令名
+     * @param transactionId - 事务 ID
+     * @param commandObject - 命令对象
+     * @param args - 其余参数
+     * @param amf3 - 是否使用 AMF3 形式
+     */
+    constructor(name: string, transactionId: number = 0, commandObject: any = null, args: any[] = [], amf3: boolean = false) {
+        this.name = name;
+        this.transactionId = transactionId;
+        this.commandObject = commandObject;
+        this.args = args;
+        this.amf3 = amf3;
+    }
+
+    /**
+     * 消息类型 ID（17 或 20）
+     */
+    get messageType(): number {
+        return this.amf3 ? RTMPMessageType.AMF3_COMMAND : RTMPMessageType.AMF0_COMMAND;
+    }
+
+    /**
+     * 编码消息体
+     *
+     * @param context - 编码使用的上下文，默认为全局默认上下文
+     * @returns 消息体字节
+     */
+    encode(context: AMFContext = AMFContext.defaultContext): Uint8Array {
+        const encoder = new AMF0Encoder(false, context);
+        if (this.amf3) {
+            encoder.writeByte(0);
+        }
+        encoder.writeObject(this.name);
+        encoder.writeObject(this.transactionId);
+        writeValue(encoder, this.commandObject, this.amf3, true);
+        for (let i = 0; i < this.args.length; i++) {
+            writeValue(encoder, this.args[i], this.amf3, true);
+        }
+        return encoder.getBuffer();
+    }
+
+    /**
+     * 解码消息体
+     *
+     * @param payload - 消息体字节
+     * @param messageType - 消息类型 ID（17 或 20）
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 命令消息
+     */
+    static decode(payload: Uint8Array, messageType: number, context: AMFContext = AMFContext.defaultContext): RTMPCommandMessage {
+        if (messageType !== RTMPMessageType.AMF0_COMMAND && messageType !== RTMPMessageType.AMF3_COMMAND) {
+            throw new Error('不是 RTMP 命令消息类型: ' + messageType);
+        }
+        const amf3 = messageType === RTMPMessageType.AMF3_COMMAND;
+        const decoder = createDecoder(payload, amf3, context);
+
+        const name = decoder.decodeValue(null);
+        const transactionId = decoder.decodeValue(null);
+        const commandObject = decoder.getBytesAvailable() > 0 ? decoder.decodeValue(null) : null;
+        const args: any[] = [];
+        while (decoder.getBytesAvailable() > 0) {
+            args.push(decoder.decodeValue(null));
+        }
+        return new RTMPCommandMessage(name, transactionId, commandObject, args, amf3);
+    }
+
+    /**
+     * connect 命令
+     *
+     * @param commandObject - 连接参数（app、tcUrl、objectEncoding 等）
+     * @param transactionId - 事务 ID，默认为 1
+     */
+    static connect(commandObject: Record<string, any>, transactionId: number = 1): RTMPCommandMessage {
+        return new RTMPCommandMessage('connect', transactionId, commandObject);
+    }
+
+    /**
+     * _result 响应
+     *
+     * @param transactionId - 对应请求的事务 ID
+     * @param commandObject - 响应的命令对象（connect 中为服务器属性）
+     * @param args - 响应参数（connect 中为 info 对象，createStream 中为流 ID）
+     */
+    static result(transactionId: number, commandObject: any = null, ...args: any[]): RTMPCommandMessage {
+        return new RTMPCommandMessage('_result', transactionId, commandObject, args);
+    }
+
+    /**
+     * _error 响应
+     *
+     * @param transactionId - 对应请求的事务 ID
+     * @param commandObject - 响应的命令对象
+     * @param info - 错误信息对象（level、code、description）
+     */
+    static error(transactionId: number, commandObject: any = null, info: Record<string, any> = {}): RTMPCommandMessage {
+        return new RTMPCommandMessage('_error', transactionId, commandObject, [info]);
+    }
+
+    /**
+     * onStatus 通知
+     *
+     * @param info - 状态信息对象，如 { level: 'status', code: 'NetStream.Play.Start', description: '' }
+     */
+    static onStatus(info: Record<string, any>): RTMPCommandMessage {
+        return new RTMPCommandMessage('onStatus', 0, null, [info]);
+    }
+
+    /**
+     * createStream 命令
+     *
+     * @param transactionId - 事务 ID
+     */
+    static createStream(transactionId: number): RTMPCommandMessage {
+        return new RTMPCommandMessage('createStream', transactionId);
+    }
+
+    /**
+     * publish 命令
+     *
+     * @param streamName - 流名称
+     * @param publishType - 发布类型（live、record、append），默认为 live
+     */
+    static publish(streamName: string, publishType: string = 'live'): RTMPCommandMessage {
+        return new RTMPCommandMessage('publish', 0, null, [streamName, publishType]);
+    }
+
+    /**
+     * play 命令
+     *
+     * @param streamName - 流名称
+     * @param start - 开始时间（秒），-2 表示先找直播流再找录制流
+     * @param duration - 播放时长（秒），-1 表示播放到结束
+     * @param reset - 是否清空之前的播放列表，不传时不写入
+     */
+    static play(streamName: string, start: number = -2, duration: number = -1, reset?: boolean): RTMPCommandMessage {
+        const args: any[] = [streamName, start, duration];
+        if (reset !== undefined) {
+            args.push(reset);
+        }
+        return new RTMPCommandMessage('play', 0, null, args);
+    }
+}
+
+/**
+ * RTMP 数据消息（如 @setDataFrame / onMetaData）
+ *
+ * @example
+ * ```typescript
+ * const message = RTMPDataMessage.setDataFrame({ width: 1280, height: 720 });
+ * const payload = message.encode();
+ * ```
+ */
+export class RTMPDataMessage {
+    /** 处理函数名（第一个值） */
+    public name: string;
+
+    /** 其余值 */
+    public args: any[];
+
+    /** 是否使用 AMF3 形式（消息类型 15） */
+    public amf3: boolean;
+
+    /**
+     * @param name - 处理函数名
+     * @param args - 其余值
+     * @param amf3 - 是否使用 AMF3 形式
+     */
+    constructor(name: string, args: any[] = [], amf3: boolean = false) {
+        this.name = name;
+        this.args = args;
+        this.amf3 = amf3;
+    }
+
+    /**
+     * 消息类型 ID（15 或 18）
+     */
+    get messageType(): number {
+        return this.amf3 ? RTMPMessageType.AMF3_DATA : RTMPMessageType.AMF0_DATA;
+    }
+
+    /**
+     * 编码消息体
+     *
+     * @param context - 编码使用的上下文，默认为全局默认上下文
+     * @returns 消息体字节
+     */
+    encode(context: AMFContext = AMFContext.defaultContext): Uint8Array {
+        const encoder = new AMF0Encoder(false, context);
+        if (this.amf3) {
+            encoder.writeByte(0);
+        }
+        encoder.writeObject(this.name);
+        for (let i = 0; i < this.args.length; i++) {
+            writeValue(encoder, this.args[i], this.amf3, false);
+        }
+        return encoder.getBuffer();
+    }
+
+    /**
+     * 解码消息体
+     *
+     * @param payload - 消息体字节
+     * @param messageType - 消息类型 ID（15 或 18）
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 数据消息
+     */
+    static decode(payload: Uint8Array, messageType: number, context: AMFContext = AMFContext.defaultContext): RTMPDataMessage {
+        if (messageType !== RTMPMessageType.AMF0_DATA && messageType !== RTMPMessageType.AMF3_DATA) {
+            throw new Error('不是 RTMP 数据消息类型: ' + messageType);
+        }
+        const amf3 = messageType === RTMPMessageType.AMF3_DATA;
+        const decoder = createDecoder(payload, amf3, context);
+
+        const name = decoder.decodeValue(null);
+        const args: any[] = [];
+        while (decoder.getBytesAvailable() > 0) {
+            args.push(decoder.decodeValue(null));
+        }
+        return new RTMPDataMessage(name, args, amf3);
+    }
+
+    /**
+     * 推流端发送的 @setDataFrame 消息（服务器保存后以 onMetaData 转发给播放端）
+     *
+     * @param metadata - 元数据（按 ECMA 数组写入）
+     */
+    static setDataFrame(metadata: Record<string, any>): RTMPDataMessage {
+        return new RTMPDataMessage('@setDataFrame', ['onMetaData', metadata]);
+    }
+
+    /**
+     * onMetaData 消息
+     *
+     * @param metadata - 元数据（按 ECMA 数组写入）
+     */
+    static onMetaData(metadata: Record<string, any>): RTMPDataMessage {
+        return new RTMPDataMessage('onMetaData', [metadata]);
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * 本地共享对象（.sol）文件模块
+ *
+ * Flash SharedObject 文件格式：
+ * 0x00BF 标记、4 字节剩余长度、"TCSO"、6 字节头部（通常为 00 04 00 00 00 00）、
+ * 共享对象名称（AMF0 字符串）、4 字节 AMF 版本号（0 或 3），
+ * 之后是若干名称/值对，每对后面跟一个填充字节 0x00。
+ * AMF3 文件的名称以 AMF3 字符串写入，整个文件共用一套引用表。
+ */
+
+import { Reader } from './reader';
+import { Writer } from './writer';
+import { AMFEncoder } from './encoder';
+import { AMFDecoder } from './decoder';
+import { AMF0Encoder } from './amf0-encoder';
+import { AMF0Decoder } from './amf0-decoder';
+import { AMFContext } from './context';
+
+/** 文件开头的标记 */
+const SOL_MAGIC = 0x00BF;
+
+/** 文件类型签名 */
+const SOL_SIGNATURE = 'TCSO';
+
+/** 头部字节长度 */
+const SOL_HEADER_LENGTH = 6;
+
+/**
+ * 本地共享对象文件
+ *
+ * @example
+ * ```typescript
+ * const sol = SolFile.parse(bytes);
+ * sol.data.set('gold', sol.data.get('gold') + 100);
+ * const patched = sol.serialize();
+ * ```
+ */
+export class SolFile {
+    /** 共享对象名称 */
+    public name: string;
+
+    /** AMF 版本号（0 或 3） */
+    public version: number;
+
+    /** 名称/值对，保持文件中的顺序 */
+    public data: Map<string, any>;
+
+    /** "TCSO" 之后的 6 字节头部，原样保留 */
+    public header: Uint8Array;
+
+    /**
+     * @param name - 共享对象名称
+     * @param version - AMF 版本号，默认为 3
+     * @param data - 名称/值对
+     */
+    constructor(name: string = '', version: number = 3, data: Map<string, any> = new Map()) {
+        this.name = name;
+        this.version = version;
+        this.data = data;
+        this.header = new Uint8Array([0x00, 0x04, 0x00, 0x00, 0x00, 0x00]);
+    }
+
+    /**
+     * 解析 .sol 文件
+     *
+     * @param bytes - 文件内容
+     * @param context - 解码使用的上下文，默认为全局默认上下文
+     * @returns 解析后的文件
+     */
+    static parse(bytes: Uint8Array, context: AMFContext = AMFContext.defaultContext): SolFile {
+        const reader = new Reader(bytes);
+        if (reader.readUInt16BE() !== SOL_MAGIC) {
+            throw new Error('不是有效的 SOL 文件: 标记错误');
+        }
+        reader.readUInt32BE(); // 剩余长度
+        if (reader.readUTF8String(4) !== SOL_SIGNATURE) {
+            throw new Error('不是有效的 SOL 文件: 缺少 TCSO 签名');
+        }
+
+        const sol = new SolFile();
+        sol.header = reader.readByte(SOL_HEADER_LENGTH, true) as Uint8Array;
+        sol.name = reader.readString();
+        sol.version = reader.readUInt32BE();
+        if (sol.version !== 0 && sol.version !== 3) {
+            throw new Error('不支持的 SOL 文件 AMF 版本: ' + sol.version);
+        }
+
+        const decoder = sol.version === 3 ? new AMFDecoder(bytes, context) : new AMF0Decoder(bytes, context);
+        decoder.setPosition(reader.getPosition());
+        while (decoder.getBytesAvailable() > 0) {
+            const key = sol.version === 3 ? decoder.readAMF3String() : decoder.readString();
+            sol.data.set(key, decoder.decodeValue(null));
+            decoder.readUInt8(); // 填充字节
+        }
+
+        return sol;
+    }
+
+    /**
+     * 序列化为 .sol 文件
+     *
+     * @param context - 编码使用的上下文，默认为全局默认上下文
+     * @returns 文件内容
+     */
+    serialize(context: AMFContext = AMFContext.defaultContext): Uint8Array {
+        const encoder = this.version === 3 ? new AMFEncoder(context) : new AMF0Encoder(false, context);
+        this.data.forEach((value, key) => {
+            if (this.version === 3) {
+                encoder.writeAMF3String(key);
+            } else {
+                encoder.writeString(key);
+            }
+            encoder.writeObject(value);
+            encoder.writeByte(0);
+        });
+        const body = encoder.getBuffer();
+
+        const content = new Writer();
+        content.write(SOL_SIGNATURE);
+        content.write(this.header);
+        content.writeString(this.name);
+        content.writeUInt32BE(this.version);
+        content.write(body);
+
+        const writer = new Writer();
+        writer.writeUInt16BE(SOL_MAGIC);
+        writer.writeUInt32BE(content.getLength());
+        writer.write(content.getBuffer());
+        return writer.getBuffer();
+    }
+}
+
+export default SolFile;
@@ -0,0 +1,881 @@
+/**
+ * 流式解码器模块
+ *
+ * 适用于 socket、分块到达的 HTTP body 等场景：数据分多次 push 进来，
+ * 每当一个顶层值完整到达时就把它解码出来。
+ * 到达的数据先由扫描器确定值的边界：扫描器用显式的容器栈记录读到哪里，
+ * 新数据到达时从上次停下的位置继续，每个字节只扫描一次；值完整到达后解码器只解码一次。
+ * 扫描器无法确定边界时（自定义外部化类型、超出解码限制等），
+ * 退回为数据足够时重新尝试解码该值：撤销这次尝试留下的引用，记下还需要多少字节，在数据足够之前不会再次尝试。
+ */
+
+import { AMFDecoder, AMFDecoderLimits, AMFDecoderOptions } from './decoder';
+import { AMF0Decoder } from './amf0-decoder';
+import { AMFContext, ExternalizableReader } from './context';
+import { AMFTrait } from './classes';
+import { ArrayCollection, ArrayList, ObjectProxy } from './collections';
+import { Reader } from './reader';
+import { AMFUnexpectedEOFError } from './errors';
+
+/** 扫描结果：值尚未完整到达 */
+const SCAN_MORE = -1;
+
+/** 扫描结果：无法扫描，交给解码器尝试 */
+const SCAN_OPAQUE = -2;
+
+/** 扫描一步成功 */
+const SCAN_OK = 0;
+
+/** 容器栈帧：还剩 remaining 个值 */
+const FRAME_VALUES = 0;
+
+/** 容器栈帧：AMF3 动态成员（键值对，直到空字符串键） */
+const FRAME_MEMBERS = 1;
+
+/** 容器栈帧：AMF0 属性（键值对，直到空字符串键和 OBJECT_END） */
+const FRAME_PROPERTIES = 2;
+
+/** 缓冲区的最小容量 */
+const MIN_CAPACITY = 1024;
+
+/** 超过该值的 U29 头部在解码器中为负数，交给解码器处理 */
+const U29_SIGN = 1 << 28;
+
+/** 内部只包含一个值的外部化类型，扫描器可以直接跳过 */
+const SINGLE_VALUE_EXTERNALIZABLES: ExternalizableReader[] = [ArrayCollection, ArrayList, ObjectProxy];
+
+/**
+ * 扫描器记录的 Trait
+ */
+interface ScanTrait {
+    /** 静态字段数 */
+    fields: number;
+
+    /** 是否为动态对象 */
+    dynamic: boolean;
+
+    /** 是否为外部化对象 */
+    externalizable: boolean;
+
+    /** 类名（只在外部化对象中使用） */
+    name: string;
+}
+
+/**
+ * 扫描器的容器栈帧
+ */
+interface ScanFrame {
+    /** 帧类型（FRAME_VALUES、FRAME_MEMBERS、FRAME_PROPERTIES） */
+    kind: number;
+
+    /** 其中的值所属的 AMF 版本（0 或 3） */
+    version: number;
+
+    /** 其中的值的嵌套深度（与解码器的 depth 一致） */
+    depth: number;
+
+    /** FRAME_VALUES 中还剩的值数量 */
+    remaining: number;
+
+    /** 已读取的键数量 */
+    count: number;
+}
+
+/**
+ * 顶层值的边界扫描器
+ *
+ * 只读取类型标记、长度和 Trait，不创建值；每一步要么完整读取一个头部，要么不改变状态，
+ * 因此数据不足时可以原样保留进度。字符串、ByteArray 等数据部分直接跳过，位置可以暂时超出已到达的数据
+ */
+class ValueScanner {
+    /** Trait 引用表（与解码器的 Trait 引用表一致） */
+    private traits: ScanTrait[];
+
+    /** 当前值开始时 Trait 引用表的长度 */
+    private traitBase: number;
+
+    /** 当前值开始时解码器字符串引用表的长度 */
+    private stringBase: number;
+
+    /** 当前值中新加入字符串引用表的字符串（位置和字节长度） */
+    private strings: number[];
+
+    /** 容器栈 */
+    private stack: ScanFrame[];
+
+    /** 扫描到的位置（相对于值的开头） */
+    private position: number;
+
+    /** 当前值中的对象数量 */
+    private objects: number;
+
+    /** 实际执行解码的解码器 */
+    private decoder: AMFDecoder;
+
+    /** 上下文（查找外部化类型） */
+    private context: AMFContext;
+
+    /** 解码器选项 */
+    private options: AMFDecoderOptions;
+
+    /**
+     * @param decoder - 实际执行解码的解码器
+     * @param context - 上下文
+     * @param options - 解码器选项
+     */
+    constructor(decoder: AMFDecoder, context: AMFContext, options: AMFDecoderOptions) {
+        this.decoder = decoder;
+        this.context = context;
+        this.options = options;
+        this.traits = [];
+        this.traitBase = 0;
+        this.stringBase = 0;
+        this.strings = [];
+        this.stack = [];
+        this.position = 0;
+        this.objects = 0;
+    }
+
+    /**
+     * 开始扫描一个顶层值
+     *
+     * @param version - AMF 版本（0 或 3）
+     */
+    begin(version: number): void {
+        this.traitBase = this.traits.length;
+        this.stringBase = this.decoder.saveReferences()[0];
+        this.strings = [];
+        this.stack = [{ kind: FRAME_VALUES, version, depth: 1, remaining: 1, count: 0 }];
+        this.position = 0;
+        this.objects = 0;
+    }
+
+    /**
+     * 是否正在扫描一个值
+     */
+    isScanning(): boolean {
+        return this.stack.length > 0 || this.position > 0;
+    }
+
+    /**
+     * 值解码完成后同步 Trait 引用表
+     *
+     * @param traits - 解码器解码该值时新加入的 Trait，为 null 时保留扫描得到的 Trait
+     */
+    commit(traits: AMFTrait[] | null): void {
+        if (traits !== null) {
+            this.traits.length = this.traitBase;
+            for (let i = 0; i < traits.length; i++) {
+                const trait = traits[i];
+                this.traits.push({
+                    fields: trait.staticFields.length,
+                    dynamic: trait.dynamic,
+                    externalizable: trait.externalizable,
+                    name: trait.name
+                });
+            }
+        }
+        this.stack = [];
+        this.position = 0;
+    }
+
+    /**
+     * 从上次停下的位置继续扫描
+     *
+     * @param bytes - 从值的开头到目前已到达的数据
+     * @returns 值完整到达时为值的长度，否则为 SCAN_MORE 或 SCAN_OPAQUE
+     */
+    scan(bytes: Uint8Array): number {
+        while (this.stack.length > 0) {
+            const frame = this.stack[this.stack.length - 1];
+            if (frame.kind === FRAME_VALUES && frame.remaining === 0) {
+                this.stack.pop();
+                continue;
+            }
+            if (this.position >= bytes.length) {
+                return SCAN_MORE;
+            }
+            let status: number;
+            if (frame.kind === FRAME_VALUES) {
+                status = frame.version === 0 ? this.scanAMF0Value(bytes, frame.depth) : this.scanAMF3Value(bytes, frame.depth);
+                if (status === SCAN_OK) {
+                    frame.remaining--;
+                }
+            } else if (frame.kind === FRAME_MEMBERS) {
+                status = this.scanMember(bytes, frame);
+            } else {
+                status = this.scanProperty(bytes, frame);
+            }
+            if (status !== SCAN_OK) {
+                return status;
+            }
+        }
+        return this.position <= bytes.length ? this.position : SCAN_MORE;
+    }
+
+    /**
+     * 检查数据中的长度或数量是否超出限制（超出时交给解码器抛出 AMFLimitError）
+     */
+    private exceeds(limit: keyof AMFDecoderLimits, value: number): boolean {
+        const max = this.options.limits?.[limit];
+        return max !== undefined && value > max;
+    }
+
+    /**
+     * 记录新的对象，超出对象数量限制时返回 true
+     */
+    private countObject(): boolean {
+        this.objects++;
+        return this.exceeds('maxObjects', this.objects) || this.exceeds('maxTotalObjects', this.objects);
+    }
+
+    /**
+     * 压入容器栈帧
+     */
+    private push(kind: number, version: number, depth: number, remaining: number): void {
+        this.stack.push({ kind, version, depth, remaining, count: 0 });
+    }
+
+    /**
+     * 读取 U29
+     *
+     * @returns 值和之后的位置，数据不足时为 null
+     */
+    private readU29(bytes: Uint8Array, offset: number): [number, number] | null {
+        let value = 0;
+        for (let i = 0; i < 4; i++) {
+            if (offset + i >= bytes.length) {
+                return null;
+            }
+            const byte = bytes[offset + i];
+            if (i === 3) {
+                return [(value << 8) | byte, offset + 4];
+            }
+            value = (value << 7) | (byte & 0x7F);
+            if ((byte & 0x80) === 0) {
+                return [value, offset + i + 1];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 跳过 AMF3 字符串，内联写出的非空字符串记入 added
+     *
+     * @returns 头部（数据不足时为 SCAN_MORE，无法扫描时为 SCAN_OPAQUE）和之后的位置
+     */
+    private skipString(bytes: Uint8Array, offset: number, added: number[]): [number, number] {
+        const u29 = this.readU29(bytes, offset);
+        if (u29 === null) {
+            return [SCAN_MORE, offset];
+        }
+        const [header, next] = u29;
+        if (header >= U29_SIGN) {
+            return [SCAN_OPAQUE, offset];
+        }
+        if ((header & 1) === 0 || header === 1) {
+            return [header, next];
+        }
+        const length = header >> 1;
+        if (this.exceeds('maxStringLength', length)) {
+            return [SCAN_OPAQUE, offset];
+        }
+        added.push(next, length);
+        return [header, next + length];
+    }
+
+    /**
+     * 取出 AMF3 字符串的内容（只用于外部化对象的类名）
+     *
+     * @returns 字符串，数据不足或引用无效时为 null
+     */
+    private stringAt(bytes: Uint8Array, header: number, added: number[]): string | null {
+        if (header === 1) {
+            return '';
+        }
+        if ((header & 1) === 1) {
+            const offset = added[added.length - 2];
+            const length = added[added.length - 1];
+            if (offset + length > bytes.length) {
+                return null;
+            }
+            const reader = new Reader(bytes);
+            reader.setPosition(offset);
+            return reader.readUTF8String(length);
+        }
+        const index = header >> 1;
+        if (index < this.stringBase) {
+            return this.decoder.getStringReference(index) ?? null;
+        }
+        const local = (index - this.stringBase) * 2;
+        if (local >= this.strings.length || this.strings[local] + this.strings[local + 1] > bytes.length) {
+            return null;
+        }
+        const reader = new Reader(bytes);
+        reader.setPosition(this.strings[local]);
+        return reader.readUTF8String(this.strings[local + 1]);
+    }
+
+    /**
+     * 扫描一个 AMF3 值
+     */
+    private scanAMF3Value(bytes: Uint8Array, depth: number): number {
+        if (this.exceeds('maxDepth', depth)) {
+            return SCAN_OPAQUE;
+        }
+        const marker = bytes[this.position];
+        const start = this.position + 1;
+        if (marker <= 0x03) {
+            // UNDEFINED、NULL、FALSE、TRUE
+            this.position = start;
+            return SCAN_OK;
+        }
+        if (marker === 0x05) {
+            // DOUBLE
+            this.position = start + 8;
+            return SCAN_OK;
+        }
+        if (marker === 0x06) {
+            // STRING
+            const [header, next] = this.skipString(bytes, start, this.strings);
+            if (header < 0) {
+                return header;
+            }
+            this.position = next;
+            return SCAN_OK;
+        }
+        if (marker > 0x11) {
+            return SCAN_OPAQUE;
+        }
+
+        const u29 = this.readU29(bytes, start);
+        if (u29 === null) {
+            return SCAN_MORE;
+        }
+        const [header, next] = u29;
+        if (marker === 0x04 || (header & 1) === 0) {
+            // INTEGER 或引用
+            this.position = next;
+            return SCAN_OK;
+        }
+        if (header >= U29_SIGN) {
+            return SCAN_OPAQUE;
+        }
+        const length = header >> 1;
+
+        switch (marker) {
+            case 0x07: // XML_DOC
+            case 0x0B: // XML
+                if (this.exceeds('maxStringLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = next + length;
+                return SCAN_OK;
+            case 0x08: // DATE
+                if (this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = next + 8;
+                return SCAN_OK;
+            case 0x09: // ARRAY：先是关联部分，之后是密集部分
+                if (this.exceeds('maxCollectionLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = next;
+                this.push(FRAME_VALUES, 3, depth + 1, length);
+                this.push(FRAME_MEMBERS, 3, depth + 1, 0);
+                return SCAN_OK;
+            case 0x0A: // OBJECT
+                return this.scanAMF3Object(bytes, length, next, depth);
+            case 0x0C: // BYTE_ARRAY
+                if (this.exceeds('maxByteArrayLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = next + length;
+                return SCAN_OK;
+            case 0x0D: // VECTOR_INT
+            case 0x0E: // VECTOR_UINT
+            case 0x0F: // VECTOR_DOUBLE
+                if (this.exceeds('maxCollectionLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                // fixed 标记之后是定长的元素
+                this.position = next + 1 + length * (marker === 0x0F ? 8 : 4);
+                return SCAN_OK;
+            case 0x10: { // VECTOR_OBJECT
+                if (this.exceeds('maxCollectionLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                const added: number[] = [];
+                const [typeHeader, end] = this.skipString(bytes, next + 1, added);
+                if (typeHeader < 0) {
+                    return typeHeader;
+                }
+                this.strings.push(...added);
+                this.position = end;
+                this.push(FRAME_VALUES, 3, depth + 1, length);
+                return SCAN_OK;
+            }
+            default: { // DICTIONARY：weakKeys 标记之后是键值对
+                if (this.exceeds('maxCollectionLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = next + 1;
+                this.push(FRAME_VALUES, 3, depth + 1, length * 2);
+                return SCAN_OK;
+            }
+        }
+    }
+
+    /**
+     * 扫描内联写出的 AMF3 对象（类型标记和头部之后）
+     *
+     * @param flags - 头部去掉最低位后的值
+     * @param offset - 头部之后的位置
+     * @param depth - 对象的嵌套深度
+     */
+    private scanAMF3Object(bytes: Uint8Array, flags: number, offset: number, depth: number): number {
+        let trait: ScanTrait | undefined;
+        let position = offset;
+        const added: number[] = [];
+        if ((flags & 1) === 0) {
+            trait = this.traits[flags >> 1];
+            if (!trait) {
+                return SCAN_OPAQUE;
+            }
+        } else {
+            const fields = flags >> 3;
+            if (this.exceeds('maxTraitFields', fields)) {
+                return SCAN_OPAQUE;
+            }
+            const [nameHeader, afterName] = this.skipString(bytes, position, added);
+            if (nameHeader < 0) {
+                return nameHeader;
+            }
+            position = afterName;
+            const externalizable = ((flags >> 1) & 1) === 1;
+            let name = '';
+            if (externalizable) {
+                const resolved = this.stringAt(bytes, nameHeader, added);
+                if (resolved === null) {
+                    return (nameHeader & 1) === 1 ? SCAN_MORE : SCAN_OPAQUE;
+                }
+                name = resolved;
+            }
+            for (let i = 0; i < fields; i++) {
+                const [fieldHeader, afterField] = this.skipString(bytes, position, added);
+                if (fieldHeader < 0) {
+                    return fieldHeader;
+                }
+                position = afterField;
+            }
+            trait = { fields, dynamic: ((flags >> 2) & 1) === 1, externalizable, name };
+        }
+
+        if (this.countObject()) {
+            return SCAN_OPAQUE;
+        }
+        if (trait.externalizable) {
+            const ext = this.context.getExternalizable(trait.name) ?? this.options.unknownExternalizable;
+            if (!ext || SINGLE_VALUE_EXTERNALIZABLES.indexOf(ext) === -1) {
+                return SCAN_OPAQUE;
+            }
+        }
+
+        if ((flags & 1) === 1) {
+            this.traits.push(trait);
+        }
+        this.strings.push(...added);
+        this.position = position;
+        if (trait.externalizable) {
+            // 外部化数据内部的值由 read 解码，深度再加一层
+            this.push(FRAME_VALUES, 3, depth + 1, 1);
+            return SCAN_OK;
+        }
+        if (trait.dynamic) {
+            this.push(FRAME_MEMBERS, 3, depth + 1, 0);
+        }
+        this.push(FRAME_VALUES, 3, depth + 1, trait.fields);
+        return SCAN_OK;
+    }
+
+    /**
+     * 扫描一个 AMF3 动态成员的键，空字符串键结束
+     */
+    private scanMember(bytes: Uint8Array, frame: ScanFrame): number {
+        const [header, next] = this.skipString(bytes, this.position, this.strings);
+        if (header < 0) {
+            return header;
+        }
+        this.position = next;
+        if (header === 1) {
+            this.stack.pop();
+            return SCAN_OK;
+        }
+        if (this.exceeds('maxCollectionLength', ++frame.count)) {
+            return SCAN_OPAQUE;
+        }
+        this.push(FRAME_VALUES, 3, frame.depth, 1);
+        return SCAN_OK;
+    }
+
+    /**
+     * 扫描一个 AMF0 值
+     */
+    private scanAMF0Value(bytes: Uint8Array, depth: number): number {
+        if (this.exceeds('maxDepth', depth)) {
+            return SCAN_OPAQUE;
+        }
+        const marker = bytes[this.position];
+        const start = this.position + 1;
+        switch (marker) {
+            case 0x00: // NUMBER
+                this.position = start + 8;
+                return SCAN_OK;
+            case 0x01: // BOOLEAN
+                this.position = start + 1;
+                return SCAN_OK;
+            case 0x02: { // STRING
+                if (start + 2 > bytes.length) {
+                    return SCAN_MORE;
+                }
+                const length = (bytes[start] << 8) | bytes[start + 1];
+                if (this.exceeds('maxStringLength', length)) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start + 2 + length;
+                return SCAN_OK;
+            }
+            case 0x03: // OBJECT
+                if (this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start;
+                this.push(FRAME_PROPERTIES, 0, depth + 1, 0);
+                return SCAN_OK;
+            case 0x05: // NULL
+            case 0x06: // UNDEFINED
+            case 0x0D: // UNSUPPORTED
+                this.position = start;
+                return SCAN_OK;
+            case 0x07: // REFERENCE
+                this.position = start + 2;
+                return SCAN_OK;
+            case 0x08: // ECMA_ARRAY：元素数量之后是属性
+                if (this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start + 4;
+                this.push(FRAME_PROPERTIES, 0, depth + 1, 0);
+                return SCAN_OK;
+            case 0x0A: { // STRICT_ARRAY
+                if (start + 4 > bytes.length) {
+                    return SCAN_MORE;
+                }
+                const length = ((bytes[start] << 24) | (bytes[start + 1] << 16) | (bytes[start + 2] << 8) | bytes[start + 3]) >>> 0;
+                if (this.exceeds('maxCollectionLength', length) || this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start + 4;
+                this.push(FRAME_VALUES, 0, depth + 1, length);
+                return SCAN_OK;
+            }
+            case 0x0B: // DATE：时间和时区
+                if (this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start + 10;
+                return SCAN_OK;
+            case 0x0C: // LONG_STRING
+            case 0x0F: { // XML
+                if (start + 4 > bytes.length) {
+                    return SCAN_MORE;
+                }
+                const length = ((bytes[start] << 24) | (bytes[start + 1] << 16) | (bytes[start + 2] << 8) | bytes[start + 3]) >>> 0;
+                if (this.exceeds('maxStringLength', length) || (marker === 0x0F && this.countObject())) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start + 4 + length;
+                return SCAN_OK;
+            }
+            case 0x10: { // TYPED_OBJECT：类名之后是属性
+                if (start + 2 > bytes.length) {
+                    return SCAN_MORE;
+                }
+                if (this.countObject()) {
+                    return SCAN_OPAQUE;
+                }
+                this.position = start + 2 + ((bytes[start] << 8) | bytes[start + 1]);
+                this.push(FRAME_PROPERTIES, 0, depth + 1, 0);
+                return SCAN_OK;
+            }
+            case 0x11: // AMF3_OBJECT：切换到 AMF3 解码一个值，深度再加一层
+                this.position = start;
+                this.push(FRAME_VALUES, 3, depth + 1, 1);
+                return SCAN_OK;
+            default:
+                return SCAN_OPAQUE;
+        }
+    }
+
+    /**
+     * 扫描一个 AMF0 属性的键，空字符串键和 OBJECT_END 结束
+     */
+    private scanProperty(bytes: Uint8Array, frame: ScanFrame): number {
+        const start = this.position;
+        if (start + 2 > bytes.length) {
+            return SCAN_MORE;
+        }
+        const length = (bytes[start] << 8) | bytes[start + 1];
+        if (length === 0) {
+            if (start + 3 > bytes.length) {
+                return SCAN_MORE;
+            }
+            if (bytes[start + 2] !== 0x09) {
+                return SCAN_OPAQUE;
+            }
+            this.position = start + 3;
+            this.stack.pop();
+            return SCAN_OK;
+        }
+        if (this.exceeds('maxCollectionLength', ++frame.count)) {
+            return SCAN_OPAQUE;
+        }
+        this.position = start + 2 + length;
+        this.push(FRAME_VALUES, 0, frame.depth, 1);
+        return SCAN_OK;
+    }
+}
+
+/**
+ * 流式解码器
+ *
+ * 连续的顶层值共用一套引用表（与在同一个 AMFDecoder 上多次调用 decode 相同）。
+ * 数据有误时，出错之前解码出的值照常由 push 返回，错误在下一次 push 或 end 时抛出；
+ * 出错后解码器停在出错的值的开头，之后的 push 和 end 都抛出同一个错误
+ *
+ * @example
+ * ```typescript
+ * const stream = new AMFStreamDecoder();
+ * socket.on('data', chunk => {
+ *     for (const value of stream.push(chunk)) {
+ *         handle(value);
+ *     }
+ * });
+ *
+ * for await (const value of AMFStreamDecoder.decodeStream(response.body)) {
+ *     handle(value);
+ * }
+ * ```
+ */
+export class AMFStreamDecoder {
+    /** 实际执行解码的解码器 */
+    private decoder: AMFDecoder;
+
+    /** 值边界扫描器 */
+    private scanner: ValueScanner;
+
+    /** AMF 版本（0 或 3） */
+    private version: number;
+
+    /** 缓冲区，已解码的部分不会被覆盖（zeroCopy 时解码出的 ByteArray 是它的视图） */
+    private buffer: Uint8Array;
+
+    /** 尚未解码的数据在缓冲区中的开始位置 */
+    private dataStart: number;
+
+    /** 尚未解码的数据在缓冲区中的结束位置 */
+    private dataEnd: number;
+
+    /** 当前值是否交给解码器尝试（扫描器无法确定边界） */
+    private opaque: boolean;
+
+    /** 上次因数据不足失败时需要的数据总长度，数据不足该长度前不再尝试解码 */
+    private required: number;
+
+    /** 数据有误时的错误 */
+    private error: Error | null;
+
+    /**
+     * @param context - 上下文或解码器选项
+     * @param version - AMF 版本（0 或 3），默认为 3
+     */
+    constructor(context: AMFContext | AMFDecoderOptions = AMFContext.defaultContext, version: number = 3) {
+        const empty = new Uint8Array(0);
+        this.decoder = version === 0 ? new AMF0Decoder(empty, context) : new AMFDecoder(empty, context);
+        this.scanner = context instanceof AMFContext
+            ? new ValueScanner(this.decoder, context, context.options)
+            : new ValueScanner(this.decoder, AMFContext.defaultContext, context);
+        this.version = version;
+        this.buffer = empty;
+        this.dataStart = 0;
+        this.dataEnd = 0;
+        this.opaque = false;
+        this.required = 0;
+        this.error = null;
+    }
+
+    /**
+     * 获取已经收到但尚未解码的字节数
+     *
+     * @returns 缓冲的字节数
+     */
+    getBytesBuffered(): number {
+        return this.dataEnd - this.dataStart;
+    }
+
+    /**
+     * 追加一块数据，并解码所有已经完整到达的顶层值
+     *
+     * @param chunk - 新到达的数据
+     * @returns 本次解码出的值（可能为空数组）
+     * @throws 之前的数据有误时抛出当时的错误
+     */
+    push(chunk: Uint8Array): any[] {
+        if (this.error !== null) {
+            throw this.error;
+        }
+        this.append(chunk);
+
+        const values: any[] = [];
+        while (this.dataEnd > this.dataStart && this.dataEnd - this.dataStart >= this.required) {
+            const data = this.buffer.subarray(this.dataStart, this.dataEnd);
+            if (!this.opaque) {
+                if (!this.scanner.isScanning()) {
+                    this.scanner.begin(this.version);
+                }
+                const scanned = this.scanner.scan(data);
+                if (scanned === SCAN_MORE) {
+                    break;
+                }
+                this.opaque = scanned === SCAN_OPAQUE;
+            }
+
+            const snapshot = this.decoder.saveReferences();
+            this.decoder.setData(data);
+            let value: any;
+            try {
+                // 作为原始字节捕获的外部化对象延伸到流的末尾，在 end 之前无法解码
+                value = this.decoder.decodeValue(Infinity);
+            } catch (e) {
+                this.decoder.restoreReferences(snapshot);
+                if (e instanceof AMFUnexpectedEOFError) {
+                    this.opaque = true;
+                    this.required = e.required;
+                    break;
+                }
+                this.error = e instanceof Error ? e : new Error(String(e));
+                if (values.length > 0) {
+                    return values;
+                }
+                throw e;
+            }
+            values.push(value);
+            this.scanner.commit(this.opaque ? this.decoder.sliceReferences(snapshot).traits : null);
+            this.dataStart += this.decoder.getPosition();
+            this.opaque = false;
+            this.required = 0;
+        }
+        return values;
+    }
+
+    /**
+     * 结束输入，仍有未解码完的数据时抛出 AMFUnexpectedEOFError（offset 相对于未解码数据的开头）
+     *
+     * 作为原始字节捕获的外部化对象（unknownExternalizable 为 AMFRawExternalizable 时）延伸到流的末尾，在这里才解码
+     *
+     * @returns 等到输入结束才能解码的值（可能为空数组）
+     * @throws 之前的数据有误时抛出当时的错误
+     */
+    end(): any[] {
+        if (this.error !== null) {
+            throw this.error;
+        }
+        const length = this.dataEnd - this.dataStart;
+        if (length === 0) {
+            return [];
+        }
+        if (this.required !== Infinity) {
+            throw new AMFUnexpectedEOFError(0, Math.max(this.required, length + 1), length);
+        }
+        const snapshot = this.decoder.saveReferences();
+        this.decoder.setData(this.buffer.subarray(this.dataStart, this.dataEnd));
+        let value: any;
+        try {
+            value = this.decoder.decodeValue(length);
+        } catch (e) {
+            this.decoder.restoreReferences(snapshot);
+            this.error = e instanceof Error ? e : new Error(String(e));
+            throw e;
+        }
+        this.scanner.commit(this.decoder.sliceReferences(snapshot).traits);
+        this.dataStart += this.decoder.getPosition();
+        this.opaque = false;
+        this.required = 0;
+        return [value];
+    }
+
+    /**
+     * 依次解码数据流中的所有顶层值
+     *
+     * @param stream - Web ReadableStream 或 Node 可读流（任意 Uint8Array 异步可迭代对象）
+     * @param context - 上下文或解码器选项
+     * @param version - AMF 版本（0 或 3），默认为 3
+     */
+    static async *decodeStream(
+        stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+        context: AMFContext | AMFDecoderOptions = AMFContext.defaultContext,
+        version: number = 3
+    ): AsyncGenerator<any, void, undefined> {
+        const decoder = new AMFStreamDecoder(context, version);
+        for await (const chunk of readChunks(stream)) {
+            yield* decoder.push(chunk);
+        }
+        yield* decoder.end();
+    }
+
+    /**
+     * 把数据追加到缓冲区
+     *
+     * 容量不足时换用新的缓冲区，只复制尚未解码的部分，已解码的部分保持不变
+     */
+    private append(chunk: Uint8Array): void {
+        if (chunk.length === 0) {
+            return;
+        }
+        if (this.dataEnd + chunk.length > this.buffer.length) {
+            const length = this.dataEnd - this.dataStart;
+            const buffer = new Uint8Array(Math.max((length + chunk.length) * 2, MIN_CAPACITY));
+            buffer.set(this.buffer.subarray(this.dataStart, this.dataEnd));
+            this.buffer = buffer;
+            this.dataStart = 0;
+            this.dataEnd = length;
+        }
+        this.buffer.set(chunk, this.dataEnd);
+        this.dataEnd += chunk.length;
+    }
+}
+
+/**
+ * 把 ReadableStream 或异步可迭代对象统一为异步迭代
+ */
+async function* readChunks(stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array, void, undefined> {
+    if (typeof (stream as ReadableStream<Uint8Array>).getReader !== 'function') {
+        yield* stream as AsyncIterable<Uint8Array>;
+        return;
+    }
+    const reader = (stream as ReadableStream<Uint8Array>).getReader();
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+            yield value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+export default AMFStreamDecoder;
@@ -6,7 +6,7 @@
  * 主要用于 Flash/Flex 应用与服务器之间的数据交换
  */
 
-import { ForcedTypeValue, Serializable, Externalizable } from './classes';
+import { ForcedTypeValue, Serializable, Externalizable, AMFVector, AMFXml, AMFXmlDocument, isExternalizable } from './classes';
 
 /**
  * AMF 类型基类
@@ -118,6 +118,23 @@ export const AMF0 = {
             return AMF0.DATE;
         }
 
+        // XML 文档类型
+        if (value instanceof AMFXmlDocument) {
+            return AMF0.XML;
+        }
+
+        // 字节数组、向量、E4X XML 和可外部化对象在 AMF0 中无法表示，切换到 AMF3 编码
+        if (value instanceof Uint8Array
+            || value instanceof AMFXml
+            || value instanceof AMFVector
+            || value instanceof Int32Array
+            || value instanceof Uint32Array
+            || value instanceof Float64Array
+            || value instanceof Map
+            || isExternalizable(value)) {
+            return AMF0.AMF3_OBJECT;
+        }
+
         // 数组类型
         if (value instanceof Array) {
             return AMF0.STRICT_ARRAY;
@@ -274,11 +291,38 @@ export const AMF3 = {
             return AMF3.DATE;
         }
 
+        // XML 类型
+        if (value instanceof AMFXml) {
+            return AMF3.XML;
+        }
+        if (value instanceof AMFXmlDocument) {
+            return AMF3.XML_DOC;
+        }
+
         // 字节数组（Uint8Array 在浏览器中替代 Node.js 的 Buffer）
         if (value instanceof Uint8Array) {
             return AMF3.BYTE_ARRAY;
         }
 
+        // 向量类型
+        if (value instanceof AMFVector) {
+            return value.__type;
+        }
+        if (value instanceof Int32Array) {
+            return AMF3.VECTOR_INT;
+        }
+        if (value instanceof Uint32Array) {
+            return AMF3.VECTOR_UINT;
+        }
+        if (value instanceof Float64Array) {
+            return AMF3.VECTOR_DOUBLE;
+        }
+
+        // 字典类型（Map 的键可以是任意值）
+        if (value instanceof Map) {
+            return AMF3.DICTIONARY;
+        }
+
         // 数组类型
         if (value instanceof Array) {
             return AMF3.ARRAY;
@@ -5,10 +5,46 @@
  * 专为浏览器环境设计，使用 Uint8Array 和 DataView 替代 Node.js 的 Buffer
  */
 
+/** 共享的 UTF-8 编码器 */
+const textEncoder = new TextEncoder();
+
+/** 默认初始容量 */
+const DEFAULT_CAPACITY = 256;
+
+/**
+ * 计算字符串的 UTF-8 字节长度（孤立的代理项按 U+FFFD 计为 3 字节，与 TextEncoder 一致）
+ *
+ * @param value - 字符串
+ * @returns UTF-8 字节长度
+ */
+export function getUTF8Length(value: string): number {
+    let length = 0;
+    for (let i = 0; i < value.length; i++) {
+        const code = value.charCodeAt(i);
+        if (code < 0x80) {
+            length += 1;
+        } else if (code < 0x800) {
+            length += 2;
+        } else if (code >= 0xD800 && code <= 0xDBFF && i + 1 < value.length) {
+            const next = value.charCodeAt(i + 1);
+            if (next >= 0xDC00 && next <= 0xDFFF) {
+                length += 4;
+                i++;
+            } else {
+                length += 3;
+            }
+        } else {
+            length += 3;
+        }
+    }
+    return length;
+}
+
 /**
  * 二进制数据写入器类
  *
- * 提供向动态增长的缓冲区写入各种二进制数据类型的方法
+ * 所有数据写入同一个可增长的 ArrayBuffer（容量不足时按倍数扩容），
+ * 多字节数值通过同一个 DataView 写入，字符串通过共享的 TextEncoder.encodeInto 直接写入缓冲区。
  * 所有多字节数据都使用大端序（Big Endian）写入，这是 AMF 协议的要求
  *
  * @example
@@ -21,17 +57,23 @@
  * ```
  */
 export class Writer {
-    /** 内部缓冲区数组，用于动态收集写入的数据 */
-    private chunks: Uint8Array[];
+    /** 内部缓冲区 */
+    private bytes: Uint8Array;
+
+    /** 内部缓冲区的 DataView，用于写入多字节数据 */
+    private view: DataView;
 
     /** 当前已写入的总字节数 */
     private totalLength: number;
 
     /**
      * 创建一个新的写入器
+     *
+     * @param initialCapacity - 初始容量（字节），默认为 256
      */
-    constructor() {
-        this.chunks = [];
+    constructor(initialCapacity: number = DEFAULT_CAPACITY) {
+        this.bytes = new Uint8Array(Math.max(initialCapacity, 16));
+        this.view = new DataView(this.bytes.buffer);
         this.totalLength = 0;
     }
 
@@ -47,39 +89,48 @@ export class Writer {
     /**
      * 获取写入的所有数据
      *
-     * 将所有写入的数据块合并为一个 Uint8Array
+     * 返回已写入数据的副本，之后继续写入不会影响返回值
      *
      * @returns 包含所有写入数据的 Uint8Array
      */
     getBuffer(): Uint8Array {
-        // 创建一个足够大的缓冲区
-        const result = new Uint8Array(this.totalLength);
-        let offset = 0;
-
-        // 将所有数据块复制到结果缓冲区
-        for (const chunk of this.chunks) {
-            result.set(chunk, offset);
-            offset += chunk.length;
-        }
-
-        return result;
+        return this.bytes.slice(0, this.totalLength);
     }
 
     /**
-     * 清空写入器，重置到初始状态
+     * 清空写入器，重置到初始状态（保留已分配的缓冲区）
      */
     clear(): void {
-        this.chunks = [];
         this.totalLength = 0;
     }
 
+    /**
+     * 确保缓冲区还能再写入指定字节数，不够时扩容
+     *
+     * @param length - 将要写入的字节数
+     */
+    private ensureCapacity(length: number): void {
+        const required = this.totalLength + length;
+        if (required <= this.bytes.length) {
+            return;
+        }
+        let capacity = this.bytes.length * 2;
+        while (capacity < required) {
+            capacity *= 2;
+        }
+        const bytes = new Uint8Array(capacity);
+        bytes.set(this.bytes.subarray(0, this.totalLength));
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer);
+    }
+
     /**
      * 写入数据到缓冲区
      *
      * 支持多种数据类型：
      * - 数字（0-255）：作为单个字节写入
      * - 数字数组：每个元素作为一个字节写入
-     * - Uint8Array：直接写入
+     * - Uint8Array：复制写入
      * - 字符串：作为 UTF-8 编码写入
      *
      * @param value - 要写入的值
@@ -89,24 +140,21 @@ export class Writer {
 
         if (typeof value === 'number') {
             // 单个字节
-            const chunk = new Uint8Array([value & 0xff]);
-            this.chunks.push(chunk);
-            this.totalLength += 1;
+            this.writeByte(value);
         } else if (Array.isArray(value)) {
             // 数字数组，每个元素作为一个字节
-            const chunk = new Uint8Array(value.map(v => v & 0xff));
-            this.chunks.push(chunk);
-            this.totalLength += chunk.length;
+            this.ensureCapacity(value.length);
+            for (let i = 0; i < value.length; i++) {
+                this.bytes[this.totalLength++] = value[i] & 0xff;
+            }
         } else if (value instanceof Uint8Array) {
-            // Uint8Array 直接写入
-            this.chunks.push(value as Uint8Array);
+            // Uint8Array 复制写入
+            this.ensureCapacity(value.length);
+            this.bytes.set(value, this.totalLength);
             this.totalLength += value.length;
         } else if (typeof value === 'string') {
             // 字符串作为 UTF-8 编码写入
-            const encoder = new TextEncoder();
-            const chunk = encoder.encode(value);
-            this.chunks.push(chunk);
-            this.totalLength += chunk.length;
+            this.writeUTF8(value);
         } else {
             throw new Error(`不知道如何写入: ${JSON.stringify(value)}`);
         }
@@ -118,7 +166,8 @@ export class Writer {
      * @param value - 0-255 范围内的整数
      */
     writeByte(value: number): void {
-        this.write(value & 0xff);
+        this.ensureCapacity(1);
+        this.bytes[this.totalLength++] = value & 0xff;
     }
 
     /**
@@ -136,10 +185,9 @@ export class Writer {
      * @param value - 0-65535 范围内的整数
      */
     writeUInt16BE(value: number): void {
-        const buffer = new Uint8Array(2);
-        const view = new DataView(buffer.buffer);
-        view.setUint16(0, value, false); // false = 大端序
-        this.write(buffer);
+        this.ensureCapacity(2);
+        this.view.setUint16(this.totalLength, value, false); // false = 大端序
+        this.totalLength += 2;
     }
 
     /**
@@ -148,10 +196,9 @@ export class Writer {
      * @param value - -32768 到 32767 范围内的整数
      */
     writeInt16BE(value: number): void {
-        const buffer = new Uint8Array(2);
-        const view = new DataView(buffer.buffer);
-        view.setInt16(0, value, false);
-        this.write(buffer);
+        this.ensureCapacity(2);
+        this.view.setInt16(this.totalLength, value, false);
+        this.totalLength += 2;
     }
 
     /**
@@ -160,10 +207,9 @@ export class Writer {
      * @param value - 0-4294967295 范围内的整数
      */
     writeUInt32BE(value: number): void {
-        const buffer = new Uint8Array(4);
-        const view = new DataView(buffer.buffer);
-        view.setUint32(0, value, false);
-        this.write(buffer);
+        this.ensureCapacity(4);
+        this.view.setUint32(this.totalLength, value, false);
+        this.totalLength += 4;
     }
 
     /**
@@ -172,10 +218,9 @@ export class Writer {
      * @param value - -2147483648 到 2147483647 范围内的整数
      */
     writeInt32BE(value: number): void {
-        const buffer = new Uint8Array(4);
-        const view = new DataView(buffer.buffer);
-        view.setInt32(0, value, false);
-        this.write(buffer);
+        this.ensureCapacity(4);
+        this.view.setInt32(this.totalLength, value, false);
+        this.totalLength += 4;
     }
 
     /**
@@ -184,10 +229,23 @@ export class Writer {
      * @param value - 双精度浮点数
      */
     writeDoubleBE(value: number): void {
-        const buffer = new Uint8Array(8);
-        const view = new DataView(buffer.buffer);
-        view.setFloat64(0, value, false);
-        this.write(buffer);
+        this.ensureCapacity(8);
+        this.view.setFloat64(this.totalLength, value, false);
+        this.totalLength += 8;
+    }
+
+    /**
+     * 写入字符串的 UTF-8 编码（不带长度前缀）
+     *
+     * @param value - 要写入的字符串
+     * @returns 写入的字节数
+     */
+    writeUTF8(value: string): number {
+        // 每个 UTF-16 码元最多对应 3 个 UTF-8 字节
+        this.ensureCapacity(value.length * 3);
+        const { written } = textEncoder.encodeInto(value, this.bytes.subarray(this.totalLength));
+        this.totalLength += written;
+        return written;
     }
 
     /**
@@ -198,10 +256,12 @@ export class Writer {
      * @param value - 要写入的字符串
      */
     writeString(value: string): void {
-        const encoder = new TextEncoder();
-        const bytes = encoder.encode(value);
-        this.writeUInt16BE(bytes.length);
-        this.write(bytes);
+        // 先占位长度，写完字符串后回填
+        this.ensureCapacity(2 + value.length * 3);
+        const lengthPosition = this.totalLength;
+        this.totalLength += 2;
+        const written = this.writeUTF8(value);
+        this.view.setUint16(lengthPosition, written, false);
     }
 
     /**
@@ -228,28 +288,22 @@ export class Writer {
 
         if (value < 0x80) {
             // 单字节
-            this.write(value);
+            this.writeByte(value);
         } else if (value < 0x4000) {
             // 双字节
-            this.write([
-                (value >> 7 & 0x7f) | 0x80,
-                value & 0x7f
-            ]);
+            this.writeByte((value >> 7 & 0x7f) | 0x80);
+            this.writeByte(value & 0x7f);
         } else if (value < 0x200000) {
             // 三字节
-            this.write([
-                (value >> 14 & 0x7f) | 0x80,
-                (value >> 7 & 0x7f) | 0x80,
-                value & 0x7f
-            ]);
+            this.writeByte((value >> 14 & 0x7f) | 0x80);
+            this.writeByte((value >> 7 & 0x7f) | 0x80);
+            this.writeByte(value & 0x7f);
         } else {
             // 四字节
-            this.write([
-                (value >> 22 & 0x7f) | 0x80,
-                (value >> 14 & 0x7f) | 0x80,
-                (value >> 7 & 0x7f) | 0x80,
-                value & 0xff
-            ]);
+            this.writeByte((value >> 22 & 0x7f) | 0x80);
+            this.writeByte((value >> 14 & 0x7f) | 0x80);
+            this.writeByte((value >> 7 & 0x7f) | 0x80);
+            this.writeByte(value & 0xff);
         }
     }
 }
@@ -0,0 +1,390 @@
+import { AMFEncoder, AMFDecoder } from 'amf-ts';
+
+// 简单的基准测试函数：先预热，再取多次运行的平均耗时
+function bench(name: string, iterations: number, fn: () => void): number {
+    for (let i = 0; i < 3; i++) {
+        fn();
+    }
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+        fn();
+    }
+    const perOp = (performance.now() - start) / iterations;
+    console.log(`${name}: ${perOp.toFixed(2)} ms/op`);
+    return perOp;
+}
+
+// 改写前的 Writer，除类名外原样复制：每次写入都创建一个小的 Uint8Array 放进数组，
+// getBuffer 时再合并，每个字符串创建一个新的 TextEncoder，用来和当前的单缓冲区实现对比
+class BaselineWriter {
+    /** 内部缓冲区数组，用于动态收集写入的数据 */
+    private chunks: Uint8Array[];
+
+    /** 当前已写入的总字节数 */
+    private totalLength: number;
+
+    /**
+     * 创建一个新的写入器
+     */
+    constructor() {
+        this.chunks = [];
+        this.totalLength = 0;
+    }
+
+    /**
+     * 获取当前已写入的字节数
+     *
+     * @returns 已写入的总字节数
+     */
+    getLength(): number {
+        return this.totalLength;
+    }
+
+    /**
+     * 获取写入的所有数据
+     *
+     * 将所有写入的数据块合并为一个 Uint8Array
+     *
+     * @returns 包含所有写入数据的 Uint8Array
+     */
+    getBuffer(): Uint8Array {
+        // 创建一个足够大的缓冲区
+        const result = new Uint8Array(this.totalLength);
+        let offset = 0;
+
+        // 将所有数据块复制到结果缓冲区
+        for (const chunk of this.chunks) {
+            result.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        return result;
+    }
+
+    /**
+     * 清空写入器，重置到初始状态
+     */
+    clear(): void {
+        this.chunks = [];
+        this.totalLength = 0;
+    }
+
+    /**
+     * 写入数据到缓冲区
+     *
+     * 支持多种数据类型：
+     * - 数字（0-255）：作为单个字节写入
+     * - 数字数组：每个元素作为一个字节写入
+     * - Uint8Array：直接写入
+     * - 字符串：作为 UTF-8 编码写入
+     *
+     * @param value - 要写入的值
+     * @throws 如果值的类型不支持
+     */
+    write(value: number | number[] | Uint8Array | string): void {
+
+        if (typeof value === 'number') {
+            // 单个字节
+            const chunk = new Uint8Array([value & 0xff]);
+            this.chunks.push(chunk);
+            this.totalLength += 1;
+        } else if (Array.isArray(value)) {
+            // 数字数组，每个元素作为一个字节
+            const chunk = new Uint8Array(value.map(v => v & 0xff));
+            this.chunks.push(chunk);
+            this.totalLength += chunk.length;
+        } else if (value instanceof Uint8Array) {
+            // Uint8Array 直接写入
+            this.chunks.push(value as Uint8Array);
+            this.totalLength += value.length;
+        } else if (typeof value === 'string') {
+            // 字符串作为 UTF-8 编码写入
+            const encoder = new TextEncoder();
+            const chunk = encoder.encode(value);
+            this.chunks.push(chunk);
+            this.totalLength += chunk.length;
+        } else {
+            throw new Error(`不知道如何写入: ${JSON.stringify(value)}`);
+        }
+    }
+
+    /**
+     * 写入单个字节
+     *
+     * @param value - 0-255 范围内的整数
+     */
+    writeByte(value: number): void {
+        this.write(value & 0xff);
+    }
+
+    /**
+     * 写入字节数组
+     *
+     * @param bytes - 字节数组或 Uint8Array
+     */
+    writeBytes(bytes: number[] | Uint8Array): void {
+        this.write(bytes);
+    }
+
+    /**
+     * 写入一个大端序无符号 16 位整数
+     *
+     * @param value - 0-65535 范围内的整数
+     */
+    writeUInt16BE(value: number): void {
+        const buffer = new Uint8Array(2);
+        const view = new DataView(buffer.buffer);
+        view.setUint16(0, value, false); // false = 大端序
+        this.write(buffer);
+    }
+
+    /**
+     * 写入一个大端序有符号 16 位整数
+     *
+     * @param value - -32768 到 32767 范围内的整数
+     */
+    writeInt16BE(value: number): void {
+        const buffer = new Uint8Array(2);
+        const view = new DataView(buffer.buffer);
+        view.setInt16(0, value, false);
+        this.write(buffer);
+    }
+
+    /**
+     * 写入一个大端序无符号 32 位整数
+     *
+     * @param value - 0-4294967295 范围内的整数
+     */
+    writeUInt32BE(value: number): void {
+        const buffer = new Uint8Array(4);
+        const view = new DataView(buffer.buffer);
+        view.setUint32(0, value, false);
+        this.write(buffer);
+    }
+
+    /**
+     * 写入一个大端序有符号 32 位整数
+     *
+     * @param value - -2147483648 到 2147483647 范围内的整数
+     */
+    writeInt32BE(value: number): void {
+        const buffer = new Uint8Array(4);
+        const view = new DataView(buffer.buffer);
+        view.setInt32(0, value, false);
+        this.write(buffer);
+    }
+
+    /**
+     * 写入一个大端序 64 位双精度浮点数
+     *
+     * @param value - 双精度浮点数
+     */
+    writeDoubleBE(value: number): void {
+        const buffer = new Uint8Array(8);
+        const view = new DataView(buffer.buffer);
+        view.setFloat64(0, value, false);
+        this.write(buffer);
+    }
+
+    /**
+     * 写入一个 AMF0 格式的字符串
+     *
+     * AMF0 字符串格式：2字节长度（大端序）+ UTF-8 编码的字符串数据
+     *
+     * @param value - 要写入的字符串
+     */
+    writeString(value: string): void {
+        const encoder = new TextEncoder();
+        const bytes = encoder.encode(value);
+        this.writeUInt16BE(bytes.length);
+        this.write(bytes);
+    }
+
+    /**
+     * 写入 AMF3 的变长整数（Int29）
+     *
+     * AMF3 使用一种可变长度编码来表示 29 位有符号整数
+     * 每个字节的最高位表示是否还有更多字节：
+     * - 值 0-127: 单字节 (0xxxxxxx)
+     * - 值 128-16383: 双字节 (1xxxxxxx 0xxxxxxx)
+     * - 值 16384-2097151: 三字节 (1xxxxxxx 1xxxxxxx 0xxxxxxx)
+     * - 值 2097152-536870911: 四字节 (1xxxxxxx 1xxxxxxx 1xxxxxxx xxxxxxxx)
+     *
+     * @param value - 29 位有符号整数，范围 -268435456 到 536870911
+     * @throws 如果值超出范围
+     */
+    writeInt29(value: number): void {
+        // 检查范围
+        if (value > 536870911 || value < -268435456) {
+            throw new RangeError(`Int29 值超出范围: ${value}`);
+        }
+
+        // 处理负数：转换为无符号形式
+        value &= 0x1fffffff;
+
+        if (value < 0x80) {
+            // 单字节
+            this.write(value);
+        } else if (value < 0x4000) {
+            // 双字节
+            this.write([
+                (value >> 7 & 0x7f) | 0x80,
+                value & 0x7f
+            ]);
+        } else if (value < 0x200000) {
+            // 三字节
+            this.write([
+                (value >> 14 & 0x7f) | 0x80,
+                (value >> 7 & 0x7f) | 0x80,
+                value & 0x7f
+            ]);
+        } else {
+            // 四字节
+            this.write([
+                (value >> 22 & 0x7f) | 0x80,
+                (value >> 14 & 0x7f) | 0x80,
+                (value >> 7 & 0x7f) | 0x80,
+                value & 0xff
+            ]);
+        }
+    }
+}
+
+// 使用改写前 Writer 的编码器：编码逻辑不变，只把 Writer 的方法换成改写前的实现，
+// 改写前的编码器写字符串时同样是 new TextEncoder().encode 之后整块写入
+class BaselineEncoder extends AMFEncoder {
+    constructor() {
+        super();
+        Object.assign(this, new BaselineWriter());
+    }
+
+    writeUTF8(value: string): number {
+        const bytes = new TextEncoder().encode(value);
+        this.write(bytes);
+        return bytes.length;
+    }
+}
+for (const name of Object.getOwnPropertyNames(BaselineWriter.prototype)) {
+    if (name !== 'constructor') {
+        Object.defineProperty(BaselineEncoder.prototype, name, Object.getOwnPropertyDescriptor(BaselineWriter.prototype, name)!);
+    }
+}
+
+// 改写前的 Reader.readUTF8String：每次复制字节并创建新的 TextDecoder，
+// 用来和当前的共享 TextDecoder / 短 ASCII 逐字节转换对比
+class BaselineStringDecoder extends AMFDecoder {
+    readUTF8String(length: number): string {
+        const bytes = this.readByte(length, true) as Uint8Array;
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+}
+
+// 1. 编码 50k 个对象
+console.log('--- Encoder ---');
+const players = Array.from({ length: 50000 }, (_, i) => ({
+    id: i,
+    name: 'player' + i,
+    level: i % 100,
+    score: i * 1.5,
+    online: i % 2 === 0,
+    joined: new Date(1700000000000 + i)
+}));
+let encodedLength = 0;
+const encodeBaseline = bench('AMF3 encode 50k objects (baseline chunked Writer)', 3, () => {
+    const encoder = new BaselineEncoder();
+    encoder.writeObject(players);
+    encodedLength = encoder.getBuffer().length;
+});
+const baselineLength = encodedLength;
+const encodeTime = bench('AMF3 encode 50k objects (single buffer Writer)', 3, () => {
+    const encoder = new AMFEncoder();
+    encoder.writeObject(players);
+    encodedLength = encoder.getBuffer().length;
+});
+console.log(`encoded size: ${encodedLength} bytes (baseline ${baselineLength} bytes)`);
+console.log(`encode speedup: ${(encodeBaseline / encodeTime).toFixed(1)}x`);
+
+// 2. 原始写入：大量小的多字节写入，与改写前的 Writer 对比
+console.log('\n--- Writer primitives ---');
+const writePrimitives = (writer: AMFEncoder | BaselineWriter) => {
+    for (let i = 0; i < 50000; i++) {
+        writer.writeUInt16BE(i & 0xFFFF);
+        writer.writeInt32BE(i);
+        writer.writeDoubleBE(i * 0.5);
+        writer.writeInt29(i);
+    }
+    writer.getBuffer();
+};
+const primitivesBaseline = bench('200k primitive writes (baseline chunked Writer)', 10, () => writePrimitives(new BaselineWriter()));
+const primitivesTime = bench('200k primitive writes (single buffer Writer)', 10, () => writePrimitives(new AMFEncoder()));
+console.log(`primitive writes speedup: ${(primitivesBaseline / primitivesTime).toFixed(1)}x`);
+
+const writeStrings = (writer: AMFEncoder | BaselineWriter) => {
+    for (let i = 0; i < 50000; i++) {
+        writer.writeString('名字-' + i);
+    }
+    writer.getBuffer();
+};
+const stringsBaseline = bench('50k writeString (baseline new TextEncoder().encode)', 10, () => writeStrings(new BaselineWriter()));
+const stringsTime = bench('50k writeString (shared TextEncoder.encodeInto)', 10, () => writeStrings(new AMFEncoder()));
+console.log(`writeString speedup: ${(stringsBaseline / stringsTime).toFixed(1)}x`);
+
+// 3. 解码大数据：字符串为主的存档和以 ByteArray 为主的数据
+console.log('\n--- Decoder ---');
+const saveData = {
+    players: Array.from({ length: 20000 }, (_, i) => ({
+        id: i,
+        name: 'player' + i,
+        title: i % 10 === 0 ? '勇者-' + i : 'knight',
+        guild: 'guild-' + (i % 500) + '-' + i,
+        level: i % 100
+    }))
+};
+const encSave = new AMFEncoder();
+encSave.writeObject(saveData);
+const saveBytes = encSave.getBuffer();
+console.log(`save payload: ${saveBytes.length} bytes`);
+const stringDecodeBaseline = bench('decode string-heavy save (baseline new TextDecoder per string)', 10, () => {
+    new BaselineStringDecoder(saveBytes).decode();
+});
+const stringDecodeTime = bench('decode string-heavy save (shared TextDecoder, short ASCII)', 10, () => {
+    new AMFDecoder(saveBytes).decode();
+});
+console.log(`string decode speedup: ${(stringDecodeBaseline / stringDecodeTime).toFixed(1)}x`);
+
+// 只测字符串读取本身：短的 ASCII 键和较长的 UTF-8 文本
+const shortKey = new TextEncoder().encode('playerName');
+const shortKeys = new Uint8Array(shortKey.length * 200000);
+for (let i = 0; i < 200000; i++) {
+    shortKeys.set(shortKey, i * shortKey.length);
+}
+const readStrings = (decoder: AMFDecoder, length: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+        decoder.readUTF8String(length);
+    }
+};
+const shortBaseline = bench('200k short ASCII keys (baseline)', 10, () => readStrings(new BaselineStringDecoder(shortKeys), shortKey.length, 200000));
+const shortTime = bench('200k short ASCII keys (current)', 10, () => readStrings(new AMFDecoder(shortKeys), shortKey.length, 200000));
+console.log(`short ASCII speedup: ${(shortBaseline / shortTime).toFixed(1)}x`);
+
+const longText = new TextEncoder().encode('勇者的冒险日志-'.repeat(10));
+const longTexts = new Uint8Array(longText.length * 20000);
+for (let i = 0; i < 20000; i++) {
+    longTexts.set(longText, i * longText.length);
+}
+const longBaseline = bench(`20k ${longText.length}-byte UTF-8 strings (baseline)`, 10, () => readStrings(new BaselineStringDecoder(longTexts), longText.length, 20000));
+const longTime = bench(`20k ${longText.length}-byte UTF-8 strings (current)`, 10, () => readStrings(new AMFDecoder(longTexts), longText.length, 20000));
+console.log(`UTF-8 string speedup: ${(longBaseline / longTime).toFixed(1)}x`);
+
+const blobs = Array.from({ length: 2000 }, (_, i) => new Uint8Array(4096).fill(i & 0xFF));
+const encBlobs = new AMFEncoder();
+encBlobs.writeObject(blobs);
+const blobBytes = encBlobs.getBuffer();
+console.log(`byte array payload: ${blobBytes.length} bytes`);
+const copyTime = bench('decode byte arrays (copy)', 10, () => {
+    new AMFDecoder(blobBytes).decode();
+});
+const zeroCopyTime = bench('decode byte arrays (zeroCopy)', 10, () => {
+    new AMFDecoder(blobBytes, { zeroCopy: true }).decode();
+});
+console.log(`zeroCopy speedup: ${(copyTime / zeroCopyTime).toFixed(1)}x`);
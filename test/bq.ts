@@ -1,4 +1,4 @@
-import { AMFDecoder, AMFEncoder } from 'amf-ts';
+import { AMFDecoder, AMFEncoder, inspect } from 'amf-ts';
 
 const base64 = 'CoFTAQVidA1jb25EYXkNY29uT2JqB2RwcwlsaWZlE2xvZ2luVGltZQVsdAVsdhltaWxpdGFyeVJhbmsLbW9uZXkFbXAVcGxheWVyTmFtZQd2aXAGJzIwMjYtMDItMTAgMTA6NTQ6MjMEZAoLAQczNzcECgczNzYEFAczNzUEHgEFQMgc1cKPXCkEh2gGGgQUBGMGD0dlbmVyYWwEtqA4Bg1CZWlEb3UGFVRlc3RQbGF5ZXIGC1ZJUDEw';
 
@@ -7,6 +7,7 @@ const decoder = new AMFDecoder(buffer);
 const result = decoder.decode();
 
 console.log('Decoded:', result);
+console.log(inspect(buffer).toText());
 
 // Re-encode and compare
 const encoder = new AMFEncoder();
@@ -1,4 +1,5 @@
-import { AMFEncoder, AMFDecoder, Serializable } from 'amf-ts';
+import { createServer } from 'node:http';
+import { AMFEncoder, AMFDecoder, AMF0Encoder, AMF0Decoder, AMFPacket, AMFHeader, AMFMessage, AMFVector, AMFDictionary, AMFXml, AMFXmlDocument, AMF3, ForcedTypeValue, Serializable, Externalizable, AMFContext, ArrayCollection, ArrayList, ObjectProxy, RemotingMessage, AcknowledgeMessage, AcknowledgeMessageExt, CommandMessage, CommandMessageExt, ErrorMessage, RemotingClient, RemotingError, AMFGateway, SolFile, RTMPCommandMessage, RTMPDataMessage, RTMPMessageType, FLVScriptTag, AMFStreamDecoder, AMFLimitError, AMFError, AMFErrorCode, AMFUnexpectedEOFError, AMFInvalidReferenceError, AMFUnknownTypeError, AMFUnregisteredClassError, AMFEncodeError, AMFPlaceholder, AMFRawExternalizable, inspect, registerClassAlias } from 'amf-ts';
 // 简单的断言函数
 function assert(condition: boolean, message: string) {
     if (!condition) {
@@ -24,6 +25,14 @@ function deepEqual(a: any, b: any): boolean {
     return true;
 }
 
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
 // 1. 基础数据测试
 console.log('--- Testing Basic Data ---');
 const basicData = {
@@ -132,3 +141,1099 @@ console.log('Decoded static object 2:', decodedStatic2);
 assert(decodedStatic2.name === 'static2', 'Static obj2 name matches');
 assert(decodedStatic2.count === 100, 'Static obj2 count matches');
 
+
+// 4. AMF0 编解码测试
+console.log('\n--- Testing AMF0 ---');
+const amf0Shared = { id: 7 };
+const amf0Data = {
+    num: 1.5,
+    str: 'amf0',
+    ok: true,
+    list: [1, 'two', null],
+    date: new Date(1700000000000),
+    typed: new User('jerry', 20),
+    bytes: new Uint8Array([1, 2, 3]),
+    a: amf0Shared,
+    b: amf0Shared
+};
+
+const enc0 = new AMF0Encoder();
+enc0.writeObject(amf0Data);
+const amf0Bytes = enc0.getBuffer();
+assert(amf0Bytes[0] === 0x08, 'AMF0 plain object encoded as ECMA array');
+
+const dec0 = new AMF0Decoder(amf0Bytes);
+const decoded0 = dec0.decode();
+assert(decoded0.num === 1.5 && decoded0.str === 'amf0' && decoded0.ok === true, 'AMF0 primitives match');
+assert(deepEqual(decoded0.list, [1, 'two', null]), 'AMF0 strict array matches');
+assert(decoded0.date.getTime() === 1700000000000, 'AMF0 date matches');
+assert(decoded0.typed.__class === 'demo.User' && decoded0.typed.name === 'jerry', 'AMF0 typed object matches');
+assert(decoded0.bytes instanceof Uint8Array && decoded0.bytes[2] === 3, 'AMF0 switches to AMF3 for ByteArray');
+assert(decoded0.a === decoded0.b, 'AMF0 reference resolves to same object');
+assert(dec0.getBytesAvailable() === 0, 'AMF0 consumed all bytes');
+
+const enc0Amf3 = new AMF0Encoder(true);
+enc0Amf3.writeObject({ hello: 'world' });
+const amf3In0 = enc0Amf3.getBuffer();
+assert(amf3In0[0] === 0x11, 'AMF0 useAMF3 writes AMF3_OBJECT marker');
+assert(new AMF0Decoder(amf3In0).decode().hello === 'world', 'AMF0 decodes AMF3_OBJECT switch');
+
+// 5. AMF 数据包测试
+console.log('\n--- Testing AMF Packet ---');
+const packet = new AMFPacket(3);
+packet.headers.push(new AMFHeader('Credentials', false, { userid: 'u', password: 'p' }));
+packet.messages.push(new AMFMessage('UserService.getUser', '/1', [42, 'x']));
+packet.messages.push(new AMFMessage('UserService.getUser', '/2', [amf0Shared, amf0Shared]));
+
+const decodedPacket = AMFPacket.decode(packet.encode());
+assert(decodedPacket.version === 3, 'Packet version matches');
+assert(decodedPacket.headers[0].name === 'Credentials' && decodedPacket.headers[0].value.userid === 'u', 'Packet header matches');
+assert(decodedPacket.messages.length === 2 && decodedPacket.messages[1].responseURI === '/2', 'Packet messages match');
+assert(deepEqual(decodedPacket.messages[0].value, [42, 'x']), 'Packet body value matches');
+assert(decodedPacket.messages[1].value[0] === decodedPacket.messages[1].value[1], 'Packet body keeps references');
+
+// 长度字段为 -1 (0xFFFFFFFF) 时仍能解析
+const unknownLength = new Uint8Array([
+    0x00, 0x00, 0x00, 0x00, 0x00, 0x01,
+    0x00, 0x02, 0x2F, 0x31, 0x00, 0x00,
+    0xFF, 0xFF, 0xFF, 0xFF,
+    0x02, 0x00, 0x02, 0x6F, 0x6B
+]);
+const unknownPacket = AMFPacket.decode(unknownLength);
+assert(unknownPacket.messages[0].targetURI === '/1' && unknownPacket.messages[0].value === 'ok', 'Packet tolerates unknown length');
+
+// 6. AMF3 向量测试
+console.log('\n--- Testing AMF3 Vector ---');
+const vectorBytes = new Uint8Array([
+    0x09, 0x07, 0x01, // 密集数组，3 个元素
+    0x0D, 0x05, 0x00, 0xFF, 0xFF, 0xFF, 0xFF, 0x00, 0x00, 0x00, 0x02,
+    0x0F, 0x03, 0x01, 0x3F, 0xF8, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0x10, 0x05, 0x01, 0x09, 0x49, 0x74, 0x65, 0x6D, 0x04, 0x01, 0x06, 0x03, 0x61
+]);
+const decodedVectors = new AMFDecoder(vectorBytes).decode();
+assert(decodedVectors[0] instanceof AMFVector && deepEqual(Array.from(decodedVectors[0]), [-1, 2]), 'Vector.<int> decoded');
+assert(decodedVectors[1].__fixed === true && decodedVectors[1][0] === 1.5, 'Vector.<Number> keeps fixed flag');
+assert(decodedVectors[2].__class === 'Item' && decodedVectors[2][1] === 'a', 'Vector.<Object> keeps element class name');
+
+const encVectors = new AMFEncoder();
+encVectors.writeObject(decodedVectors);
+assert(bytesEqual(encVectors.getBuffer(), vectorBytes), 'Vector round-trip is byte-identical');
+
+const encTyped = new AMFEncoder();
+encTyped.writeObject(new Uint32Array([1, 4294967295]));
+encTyped.writeObject(new ForcedTypeValue([1, 2], AMF3.VECTOR_INT));
+const decTyped = new AMFDecoder(encTyped.getBuffer());
+const decodedUInt = decTyped.decode();
+assert(decodedUInt.__type === AMF3.VECTOR_UINT && decodedUInt[1] === 4294967295, 'Uint32Array encoded as Vector.<uint>');
+assert(decTyped.decode().__type === AMF3.VECTOR_INT, 'ForcedTypeValue encodes Vector.<int>');
+
+// 7. AMF3 Dictionary 测试
+console.log('\n--- Testing AMF3 Dictionary ---');
+const dictKey = { id: 1 };
+const dict = new AMFDictionary<any, any>([[dictKey, 'object key'], [42, 'number key'], ['k', dictKey]], true);
+const encDict = new AMFEncoder();
+encDict.writeObject(dict);
+const dictBytes = encDict.getBuffer();
+assert(dictBytes[0] === 0x11, 'Map encoded as DICTIONARY');
+
+const decodedDict = new AMFDecoder(dictBytes).decode();
+assert(decodedDict instanceof AMFDictionary && decodedDict.__weakKeys === true, 'Dictionary keeps weakKeys flag');
+assert(decodedDict.get(42) === 'number key', 'Dictionary keeps number key');
+const decodedKey = decodedDict.get('k');
+assert(decodedDict.get(decodedKey) === 'object key', 'Dictionary keeps object key identity');
+
+const decodedDictObj = new AMFDecoder(dictBytes, { dictionaryAsObject: true }).decode();
+assert(decodedDictObj['42'] === 'number key' && decodedDictObj['"k"'].id === 1, 'Dictionary falls back to plain object');
+
+// 8. AMF3 XML 测试
+console.log('\n--- Testing AMF3 XML ---');
+const e4x = new AMFXml('<root><item id="1"/></root>');
+const xmlDoc = new AMFXmlDocument('<legacy/>');
+const encXml = new AMFEncoder();
+encXml.writeObject([e4x, xmlDoc, e4x]);
+const xmlBytes = encXml.getBuffer();
+
+const decodedXml = new AMFDecoder(xmlBytes).decode();
+assert(decodedXml[0] instanceof AMFXml && decodedXml[0].value === e4x.value, 'XML (0x0B) decoded');
+assert(decodedXml[1] instanceof AMFXmlDocument && decodedXml[1].value === '<legacy/>', 'XMLDocument (0x07) decoded');
+assert(decodedXml[0] === decodedXml[2], 'XML participates in object reference table');
+
+const encXmlAgain = new AMFEncoder();
+encXmlAgain.writeObject(decodedXml);
+assert(bytesEqual(encXmlAgain.getBuffer(), xmlBytes), 'XML round-trip is byte-identical');
+
+const enc0Xml = new AMF0Encoder();
+enc0Xml.writeObject(xmlDoc);
+assert(new AMF0Decoder(enc0Xml.getBuffer()).decode() instanceof AMFXmlDocument, 'AMF0 XML decoded as XMLDocument');
+
+// 9. Trait 引用测试
+console.log('\n--- Testing Trait References ---');
+class Point extends Serializable {
+    x: number;
+    y: number;
+
+    constructor(x: number = 0, y: number = 0) {
+        super('demo.Point');
+        this.x = x;
+        this.y = y;
+    }
+}
+
+// Flash Player 对 [new Point(1, 2), new Point(3, 4)] 的输出：第二个对象使用 Trait 引用 (0x01)
+const flashPoints = new Uint8Array([
+    0x09, 0x05, 0x01,
+    0x0A, 0x23, 0x15, 0x64, 0x65, 0x6D, 0x6F, 0x2E, 0x50, 0x6F, 0x69, 0x6E, 0x74,
+    0x03, 0x78, 0x03, 0x79, 0x04, 0x01, 0x04, 0x02,
+    0x0A, 0x01, 0x04, 0x03, 0x04, 0x04
+]);
+const encPoints = new AMFEncoder();
+encPoints.writeObject([new Point(1, 2), new Point(3, 4)]);
+const pointBytes = encPoints.getBuffer();
+console.log(`Points encoded: ${pointBytes.length} bytes (Flash Player: ${flashPoints.length} bytes)`);
+assert(bytesEqual(pointBytes, flashPoints), 'Repeated traits encoded as trait references');
+
+const manyPoints: Point[] = [];
+for (let i = 0; i < 1000; i++) {
+    manyPoints.push(new Point(i % 100, 1));
+}
+const encManyPoints = new AMFEncoder();
+encManyPoints.writeObject(manyPoints);
+const manyPointBytes = encManyPoints.getBuffer();
+console.log(`1000 points encoded: ${manyPointBytes.length} bytes`);
+assert(manyPointBytes.length < 1000 * 6 + 32, 'Trait references keep typed arrays compact');
+const decodedPoints = new AMFDecoder(manyPointBytes).decode();
+assert(decodedPoints[999].__class === 'demo.Point' && decodedPoints[999].x === 99, 'Trait references decode correctly');
+
+// 10. 字符串引用表测试
+console.log('\n--- Testing String References ---');
+const encSameValue = new AMFEncoder();
+encSameValue.writeObject({ a: 'x', b: 'x' });
+const decodedSameValue = new AMFDecoder(encSameValue.getBuffer()).decode();
+assert(decodedSameValue.a === 'x' && decodedSameValue.b === 'x', 'String value references resolve correctly');
+
+// Flash Player 对 [{ name: 'a' }, { name: 'b' }] 的输出：第二个对象的键使用字符串引用 (0x00)
+const flashNames = new Uint8Array([
+    0x09, 0x05, 0x01,
+    0x0A, 0x0B, 0x01, 0x09, 0x6E, 0x61, 0x6D, 0x65, 0x06, 0x03, 0x61, 0x01,
+    0x0A, 0x01, 0x00, 0x06, 0x03, 0x62, 0x01
+]);
+const encNames = new AMFEncoder();
+encNames.writeObject([new Serializable(), new Serializable()].map(function setName(obj: any, i: number) {
+    obj.name = i === 0 ? 'a' : 'b';
+    return obj;
+}));
+assert(bytesEqual(encNames.getBuffer(), flashNames), 'Object keys share the string reference table');
+
+const encNoRefs = new AMFEncoder({ stringReferences: false });
+encNoRefs.writeObject({ a: 'x', b: 'x' });
+const noRefBytes = encNoRefs.getBuffer();
+assert(noRefBytes.length > encSameValue.getBuffer().length, 'String references can be disabled');
+assert(new AMFDecoder(noRefBytes).decode().b === 'x', 'Output without string references decodes');
+
+// 11. 类别名注册表测试
+console.log('\n--- Testing Class Registry ---');
+class Player extends Serializable {
+    name: string = '';
+    level: number = 0;
+
+    constructor() {
+        super('demo.Player');
+    }
+
+    describe(): string {
+        return `${this.name}@${this.level}`;
+    }
+}
+
+// 没有继承 Serializable 的普通类
+class Item {
+    id: number = 0;
+    label: string = '';
+}
+
+registerClassAlias('demo.Player', Player);
+registerClassAlias('demo.Item', Item);
+
+const player = new Player();
+player.name = 'tom';
+player.level = 3;
+const item = new Item();
+item.id = 9;
+item.label = 'sword';
+
+const encRegistry = new AMFEncoder();
+encRegistry.writeObject([player, item]);
+const registryBytes = encRegistry.getBuffer();
+const decodedRegistry = new AMFDecoder(registryBytes).decode();
+assert(decodedRegistry[0] instanceof Player && decodedRegistry[0].describe() === 'tom@3', 'Registered class decoded as instance');
+assert(decodedRegistry[1] instanceof Item && decodedRegistry[1].label === 'sword', 'Alias looked up for plain registered class');
+
+const enc0Registry = new AMF0Encoder();
+enc0Registry.writeObject(item);
+assert(new AMF0Decoder(enc0Registry.getBuffer()).decode() instanceof Item, 'AMF0 typed object uses class registry');
+
+const unknownBytes = encUser.getBuffer();
+assert(new AMFDecoder(unknownBytes).decode().__class === 'demo.User', 'Unknown class falls back to Serializable');
+assert(new AMFDecoder(unknownBytes, { unknownClassPolicy: 'object' }).decode().constructor === Object, 'Unknown class can decode to plain object');
+let unknownThrown = false;
+try {
+    new AMFDecoder(unknownBytes, { unknownClassPolicy: 'error' }).decode();
+} catch (e) {
+    unknownThrown = true;
+}
+assert(unknownThrown, 'Unknown class can raise an error');
+
+// 12. 独立上下文测试
+console.log('\n--- Testing AMF Context ---');
+class Counter extends Externalizable {
+    value: number = 0;
+
+    constructor() {
+        super('demo.Counter');
+    }
+
+    write(encoder: AMFEncoder): void {
+        encoder.writeObject(this.value);
+    }
+}
+
+const counter = new Counter();
+counter.value = 5;
+const encCounter = new AMFEncoder();
+encCounter.writeObject(counter);
+const counterBytes = encCounter.getBuffer();
+
+const contextA = new AMFContext();
+contextA.registerExternalizable('demo.Counter', {
+    read(decoder: AMFDecoder): any {
+        return { from: 'A', value: decoder.decode() };
+    }
+});
+const contextB = new AMFContext();
+contextB.registerExternalizable('demo.Counter', {
+    read(decoder: AMFDecoder): any {
+        return { from: 'B', value: decoder.decode() * 2 };
+    }
+});
+
+assert(new AMFDecoder(counterBytes, contextA).decode().from === 'A', 'Context A uses its own externalizable reader');
+assert(new AMFDecoder(counterBytes, contextB).decode().value === 10, 'Context B uses its own externalizable reader');
+let globalThrown = false;
+try {
+    new AMFDecoder(counterBytes).decode();
+} catch (e) {
+    globalThrown = true;
+}
+assert(globalThrown, 'Context registrations do not leak into the default context');
+
+const contextC = new AMFContext({ unknownClassPolicy: 'error' });
+contextC.registerClassAlias('custom.Item', Item);
+const encContextItem = new AMFEncoder(contextC);
+encContextItem.writeObject(item);
+const contextItem = new AMFDecoder(encContextItem.getBuffer(), contextC).decode();
+assert(contextItem instanceof Item, 'Context class aliases used by encoder and decoder');
+assert(new AMFDecoder(encContextItem.getBuffer()).decode().__class === 'custom.Item', 'Default context does not see context aliases');
+
+// 13. Flex 集合类测试
+console.log('\n--- Testing Flex Collections ---');
+const sharedRow = { id: 1 };
+const collections = [
+    new ArrayCollection([sharedRow, sharedRow]),
+    new ArrayList(['a', 'b']),
+    new ObjectProxy({ name: 'proxy' }),
+    sharedRow
+];
+const encCollections = new AMFEncoder();
+encCollections.writeObject(collections);
+const collectionBytes = encCollections.getBuffer();
+
+const decodedCollections = new AMFDecoder(collectionBytes).decode();
+assert(decodedCollections[0] instanceof ArrayCollection && decodedCollections[0].source.length === 2, 'ArrayCollection decoded as wrapper');
+assert(decodedCollections[1] instanceof ArrayList && decodedCollections[1].source[1] === 'b', 'ArrayList decoded as wrapper');
+assert(decodedCollections[2] instanceof ObjectProxy && decodedCollections[2].object.name === 'proxy', 'ObjectProxy decoded as wrapper');
+assert(decodedCollections[3] === decodedCollections[0].source[0], 'References inside externalizable data resolve');
+
+const encCollectionsAgain = new AMFEncoder();
+encCollectionsAgain.writeObject(decodedCollections);
+assert(bytesEqual(encCollectionsAgain.getBuffer(), collectionBytes), 'Flex collections round-trip is byte-identical');
+
+const unwrapped = new AMFDecoder(collectionBytes, { unwrapCollections: true }).decode();
+assert(Array.isArray(unwrapped[0]) && unwrapped[0][0].id === 1, 'ArrayCollection unwrapped to array');
+assert(unwrapped[2].name === 'proxy', 'ObjectProxy unwrapped to object');
+
+// 14. Flex 消息测试
+console.log('\n--- Testing Flex Messages ---');
+const remoting = new RemotingMessage();
+remoting.destination = 'userService';
+remoting.operation = 'getUser';
+remoting.body = [42];
+remoting.headers = { DSId: 'nil' };
+const encRemoting = new AMFEncoder();
+encRemoting.writeObject(remoting);
+const decodedRemoting = new AMFDecoder(encRemoting.getBuffer()).decode();
+assert(decodedRemoting instanceof RemotingMessage, 'RemotingMessage decoded as built-in class');
+assert(decodedRemoting.operation === 'getUser' && decodedRemoting.body[0] === 42, 'RemotingMessage fields preserved');
+assert(decodedRemoting.messageId === remoting.messageId, 'RemotingMessage messageId preserved');
+
+const fault = new ErrorMessage();
+fault.faultCode = 'Server.Processing';
+fault.faultString = 'boom';
+fault.correlationId = remoting.messageId;
+const encFault = new AMFEncoder();
+encFault.writeObject(fault);
+const decodedFault = new AMFDecoder(encFault.getBuffer()).decode();
+assert(decodedFault instanceof ErrorMessage && decodedFault.faultString === 'boom', 'ErrorMessage decoded with fault fields');
+
+// 手工构造的 DSK：body、timestamp、messageId（字节）、correlationId（字节）
+const messageIdBytes = [0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0x09, 0x0A, 0x0B, 0x0C, 0x0D, 0x0E, 0x0F, 0x10];
+const correlationIdBytes = [0x11, 0x12, 0x13, 0x14, 0x15, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x1B, 0x1C, 0x1D, 0x1E, 0x1F, 0x20];
+const dskBytes = new Uint8Array([
+    0x0A, 0x07, 0x07, 0x44, 0x53, 0x4B,
+    0xA1, 0x02,
+    0x06, 0x05, 0x6F, 0x6B,
+    0x05, 0x42, 0x78, 0xBC, 0xFE, 0x56, 0x80, 0x00, 0x00,
+    0x0C, 0x21, ...messageIdBytes,
+    0x02,
+    0x0C, 0x21, ...correlationIdBytes,
+    0x00
+]);
+const ack = new AMFDecoder(dskBytes).decode();
+assert(ack instanceof AcknowledgeMessageExt && ack instanceof AcknowledgeMessage, 'DSK decoded as AcknowledgeMessage');
+assert(ack.body === 'ok' && ack.timestamp === 1700000000000, 'DSK body and timestamp read');
+assert(ack.messageId === '01020304-0506-0708-090A-0B0C0D0E0F10', 'DSK messageId read from bytes');
+assert(ack.correlationId === '11121314-1516-1718-191A-1B1C1D1E1F20', 'DSK correlationId read from bytes');
+const encAck = new AMFEncoder();
+encAck.writeObject(ack);
+assert(bytesEqual(encAck.getBuffer(), dskBytes), 'DSK round-trip is byte-identical');
+
+const command = new CommandMessage();
+command.operation = CommandMessage.CLIENT_PING_OPERATION;
+command.headers = { [CommandMessage.MESSAGING_VERSION]: 1 };
+const encCommand = new AMFEncoder();
+encCommand.writeObject(new CommandMessageExt(command));
+const decodedCommand = new AMFDecoder(encCommand.getBuffer()).decode();
+assert(decodedCommand instanceof CommandMessageExt && decodedCommand.operation === 5, 'DSC operation round-trip');
+assert(decodedCommand.messageId === command.messageId && decodedCommand.headers.DSMessagingVersion === 1, 'DSC messageId and headers round-trip');
+
+// 15. Remoting 客户端测试
+console.log('\n--- Testing Remoting Client ---');
+const sentPackets: AMFPacket[] = [];
+// 本地网关替身：echo 返回参数，fail 返回 onStatus
+const standInTransport = async (url: string, body: Uint8Array): Promise<Uint8Array> => {
+    const request = AMFPacket.decode(body);
+    sentPackets.push(request);
+    const response = new AMFPacket(request.version);
+    for (const message of request.messages) {
+        if (message.targetURI === 'Test.fail') {
+            response.messages.push(new AMFMessage(message.responseURI + '/onStatus', 'null', { code: 'Server.Error', description: 'failed ' + message.value[0] }));
+        } else {
+            response.messages.push(new AMFMessage(message.responseURI + '/onResult', 'null', message.value));
+        }
+    }
+    return response.encode();
+};
+
+const client = new RemotingClient('http://localhost/gateway', { transport: standInTransport });
+client.addHeader('Credentials', false, { userid: 'tom', password: 'secret' });
+const echoCall = client.call('Test.echo', 1, 'two', { three: 3 });
+const failCall = client.call('Test.fail', 'x').catch(e => e);
+const [echoResult, failResult] = await Promise.all([echoCall, failCall]);
+assert(sentPackets.length === 1 && sentPackets[0].messages.length === 2, 'Calls in the same tick are batched into one packet');
+assert(sentPackets[0].messages[0].responseURI === '/1' && sentPackets[0].messages[1].responseURI === '/2', 'Sequential response URIs assigned');
+assert(sentPackets[0].headers[0].name === 'Credentials' && sentPackets[0].headers[0].value.userid === 'tom', 'Client headers sent with packet');
+assert(deepEqual(echoResult, [1, 'two', { three: 3 }]), 'onResult resolves the matching call');
+assert(failResult instanceof RemotingError && failResult.message === 'failed x' && failResult.fault.code === 'Server.Error', 'onStatus rejects with RemotingError');
+
+await client.call('Test.echo');
+assert(sentPackets.length === 2 && sentPackets[1].messages[0].responseURI === '/3', 'Later calls use a new packet and continue numbering');
+
+// 16. 网关测试
+console.log('\n--- Testing Gateway ---');
+const gateway = new AMFGateway();
+gateway.register('PlayerService', {
+    describe(p: Player) {
+        return p instanceof Player ? p.describe() : 'not a player';
+    },
+    async fail() {
+        throw Object.assign(new Error('no such player'), { code: 'Player.NotFound' });
+    }
+});
+
+const server = createServer(gateway.handler());
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const address = server.address() as { port: number };
+try {
+    const httpClient = new RemotingClient(`http://127.0.0.1:${address.port}/gateway`);
+    const described = httpClient.call('PlayerService.describe', gatewayPlayerOf('ann', 7));
+    const failed = httpClient.call('PlayerService.fail').catch(e => e);
+    const missing = httpClient.call('NoService.run').catch(e => e);
+    const [describedResult, failedResult, missingResult] = await Promise.all([described, failed, missing]);
+    assert(describedResult === 'ann@7', 'Gateway passes registered classes to services over HTTP');
+    assert(failedResult instanceof RemotingError && failedResult.fault.code === 'Player.NotFound', 'Gateway reports service errors via onStatus');
+    assert(missingResult instanceof RemotingError && missingResult.fault.code === 'Server.ResourceNotFound', 'Gateway reports unknown services');
+} finally {
+    await new Promise(resolve => server.close(resolve));
+}
+
+const flexRequest = new AMFPacket(3);
+const flexCall = new RemotingMessage();
+flexCall.destination = 'PlayerService';
+flexCall.operation = 'describe';
+flexCall.body = [gatewayPlayerOf('bob', 2)];
+const flexFail = new RemotingMessage();
+flexFail.destination = 'PlayerService';
+flexFail.operation = 'fail';
+flexFail.body = [];
+flexRequest.messages.push(new AMFMessage('null', '/1', [flexCall]));
+flexRequest.messages.push(new AMFMessage('null', '/2', [flexFail]));
+const flexResponse = AMFPacket.decode(await gateway.handleBytes(flexRequest.encode()));
+const flexAck = flexResponse.messages[0].value;
+const flexError = flexResponse.messages[1].value;
+assert(flexResponse.messages[0].targetURI === '/1/onResult' && flexAck instanceof AcknowledgeMessage, 'RemotingMessage answered with AcknowledgeMessage');
+assert(flexAck.body === 'bob@2' && flexAck.correlationId === flexCall.messageId, 'AcknowledgeMessage carries result and correlationId');
+assert(flexResponse.messages[1].targetURI === '/2/onStatus' && flexError instanceof ErrorMessage, 'Failed RemotingMessage answered with ErrorMessage');
+assert(flexError.faultCode === 'Player.NotFound' && flexError.faultString === 'no such player', 'ErrorMessage carries fault code and string');
+
+// 17. SOL 文件测试
+console.log('\n--- Testing SOL Files ---');
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const amf3SolBytes = new Uint8Array([
+    0x00, 0xBF, 0x00, 0x00, 0x00, 0x2E,
+    ...ascii('TCSO'), 0x00, 0x04, 0x00, 0x00, 0x00, 0x00,
+    0x00, 0x04, ...ascii('save'), 0x00, 0x00, 0x00, 0x03,
+    0x09, ...ascii('gold'), 0x04, 0x64, 0x00,
+    0x09, ...ascii('hero'), 0x06, 0x07, ...ascii('tom'), 0x00,
+    0x07, ...ascii('tag'), 0x06, 0x04, 0x00
+]);
+const amf3Sol = SolFile.parse(amf3SolBytes);
+assert(amf3Sol.name === 'save' && amf3Sol.version === 3, 'SOL name and version read');
+assert(deepEqual(Array.from(amf3Sol.data.keys()), ['gold', 'hero', 'tag']), 'SOL keys read in order');
+assert(amf3Sol.data.get('gold') === 100 && amf3Sol.data.get('tag') === 'tom', 'SOL values read with shared string references');
+assert(bytesEqual(amf3Sol.serialize(), amf3SolBytes), 'AMF3 SOL round-trip is byte-identical');
+
+amf3Sol.data.set('gold', 250);
+assert(SolFile.parse(amf3Sol.serialize()).data.get('gold') === 250, 'Patched SOL value survives serialization');
+
+const amf0Sol = new SolFile('legacy', 0);
+amf0Sol.header = new Uint8Array([0x00, 0x04, 0x00, 0x00, 0x00, 0x2A]);
+amf0Sol.data.set('10', 'ten');
+amf0Sol.data.set('level', 3);
+amf0Sol.data.set('inventory', ['sword', 'shield']);
+const amf0SolBytes = amf0Sol.serialize();
+const amf0SolParsed = SolFile.parse(amf0SolBytes);
+assert(amf0SolParsed.version === 0 && amf0SolParsed.header[5] === 0x2A, 'AMF0 SOL keeps version and unknown header bytes');
+assert(deepEqual(Array.from(amf0SolParsed.data.keys()), ['10', 'level', 'inventory']), 'AMF0 SOL keeps key order');
+assert(amf0SolParsed.data.get('inventory')[1] === 'shield', 'AMF0 SOL values read');
+assert(bytesEqual(amf0SolParsed.serialize(), amf0SolBytes), 'AMF0 SOL round-trip is byte-identical');
+
+// 18. RTMP 命令消息测试
+console.log('\n--- Testing RTMP Messages ---');
+// 客户端发出的 connect：'connect'、1、{ app: 'live', objectEncoding: 0 }
+const connectBytes = new Uint8Array([
+    0x02, 0x00, 0x07, ...ascii('connect'),
+    0x00, 0x3F, 0xF0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0x03,
+    0x00, 0x03, ...ascii('app'), 0x02, 0x00, 0x04, ...ascii('live'),
+    0x00, 0x0E, ...ascii('objectEncoding'), 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0x00, 0x00, 0x09
+]);
+const connect = RTMPCommandMessage.decode(connectBytes, RTMPMessageType.AMF0_COMMAND);
+assert(connect.name === 'connect' && connect.transactionId === 1 && connect.commandObject.app === 'live', 'RTMP connect decoded');
+assert(bytesEqual(connect.encode(), connectBytes), 'RTMP connect round-trip is byte-identical');
+assert(bytesEqual(RTMPCommandMessage.connect({ app: 'live', objectEncoding: 0 }).encode(), connectBytes), 'RTMP connect factory writes command object as AMF0 Object');
+
+const connectResult = RTMPCommandMessage.result(1, { fmsVer: 'FMS/3,0,1,123', capabilities: 31 },
+    { level: 'status', code: 'NetConnection.Connect.Success', description: 'Connection succeeded.', objectEncoding: 3 });
+connectResult.amf3 = true;
+const connectResultBytes = connectResult.encode();
+assert(connectResult.messageType === 17 && connectResultBytes[0] === 0x00, 'AMF3 command message starts with 0x00');
+const decodedResult = RTMPCommandMessage.decode(connectResultBytes, RTMPMessageType.AMF3_COMMAND);
+assert(decodedResult.name === '_result' && decodedResult.commandObject.capabilities === 31, 'AMF3 _result command object decoded');
+assert(decodedResult.args[0].code === 'NetConnection.Connect.Success', 'AMF3 _result info decoded');
+
+const streamResult = RTMPCommandMessage.decode(RTMPCommandMessage.result(4, null, 1).encode(), RTMPMessageType.AMF0_COMMAND);
+assert(streamResult.commandObject === null && streamResult.args[0] === 1, 'createStream _result carries stream ID');
+
+const play = RTMPCommandMessage.decode(RTMPCommandMessage.play('movie', 0, -1, true).encode(), RTMPMessageType.AMF0_COMMAND);
+assert(play.name === 'play' && deepEqual(play.args, ['movie', 0, -1, true]), 'RTMP play round-trip');
+const publish = RTMPCommandMessage.decode(RTMPCommandMessage.publish('stream1').encode(), RTMPMessageType.AMF0_COMMAND);
+assert(publish.name === 'publish' && publish.args[1] === 'live', 'RTMP publish round-trip');
+const status = RTMPCommandMessage.decode(RTMPCommandMessage.onStatus({ level: 'status', code: 'NetStream.Play.Start' }).encode(), RTMPMessageType.AMF0_COMMAND);
+assert(status.name === 'onStatus' && status.transactionId === 0 && status.args[0].code === 'NetStream.Play.Start', 'RTMP onStatus round-trip');
+const rtmpError = RTMPCommandMessage.decode(RTMPCommandMessage.error(2, null, { level: 'error', code: 'NetConnection.Connect.Rejected' }).encode(), RTMPMessageType.AMF0_COMMAND);
+assert(rtmpError.name === '_error' && rtmpError.args[0].level === 'error', 'RTMP _error round-trip');
+
+const dataFrame = RTMPDataMessage.setDataFrame({ width: 1280, height: 720, stereo: true });
+const dataFrameBytes = dataFrame.encode();
+const decodedFrame = RTMPDataMessage.decode(dataFrameBytes, RTMPMessageType.AMF0_DATA);
+assert(decodedFrame.name === '@setDataFrame' && decodedFrame.args[0] === 'onMetaData', 'RTMP @setDataFrame decoded');
+assert(decodedFrame.args[1].width === 1280 && decodedFrame.args[1].stereo === true, 'RTMP metadata decoded');
+assert(bytesEqual(decodedFrame.encode(), dataFrameBytes), 'RTMP data message round-trip is byte-identical');
+
+// 19. FLV 脚本数据标签测试
+console.log('\n--- Testing FLV Script Tags ---');
+const u16 = (n: number) => [n >> 8, n & 0xFF];
+const amf0Key = (key: string) => [...u16(key.length), ...ascii(key)];
+const scriptData = [
+    0x02, ...amf0Key('onMetaData'),
+    0x08, 0x00, 0x00, 0x00, 0x04,
+    ...amf0Key('duration'), 0x00, 0x40, 0x29, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    ...amf0Key('stereo'), 0x01, 0x01,
+    ...amf0Key('10'), 0x00, 0x3F, 0xF0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    ...amf0Key('keyframes'), 0x03,
+    ...amf0Key('times'), 0x0A, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0x00, 0x00, 0x09,
+    0x00, 0x00, 0x09
+];
+const scriptTagBytes = new Uint8Array([
+    0x12, 0x00, ...u16(scriptData.length), 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    ...scriptData,
+    0x00, 0x00, ...u16(11 + scriptData.length)
+]);
+const flvFile = new Uint8Array([
+    ...ascii('FLV'), 0x01, 0x05, 0x00, 0x00, 0x00, 0x09, 0x00, 0x00, 0x00, 0x00,
+    ...scriptTagBytes,
+    0x09, 0x00, 0x00, 0x02, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x17, 0x00, 0x00, 0x00, 0x00, 0x0D
+]);
+
+const scriptTags = FLVScriptTag.findAll(flvFile);
+assert(scriptTags.length === 1 && scriptTags[0].offset === 13 && scriptTags[0].size === scriptTagBytes.length, 'FLV script tag located in file');
+const metaTag = scriptTags[0].tag;
+assert(metaTag.name === 'onMetaData' && metaTag.properties.get('duration') === 12.5, 'FLV onMetaData properties read');
+assert(metaTag.properties.get('stereo') === true && metaTag.properties.get('10') === 1, 'FLV keeps boolean and number types');
+assert(deepEqual(Array.from(metaTag.properties.keys()), ['duration', 'stereo', '10', 'keyframes']), 'FLV keeps property order');
+assert(bytesEqual(metaTag.encode(), scriptTagBytes), 'FLV script tag round-trip is byte-identical');
+
+metaTag.properties.set('duration', 30);
+metaTag.properties.set('filesize', flvFile.length);
+const patchedTag = FLVScriptTag.parse(metaTag.encode());
+assert(patchedTag.properties.get('duration') === 30 && patchedTag.properties.get('filesize') === flvFile.length, 'FLV patched properties survive regeneration');
+assert(deepEqual(patchedTag.properties.get('keyframes').times, [0]), 'FLV nested keyframes preserved');
+
+// 20. 流式解码测试
+console.log('\n--- Testing Stream Decoder ---');
+const streamShared = { name: 'shared' };
+const streamValues = [{ id: 1, tags: ['a', 'b'], shared: streamShared }, 'hello', 12345, { again: streamShared, tags: ['a'] }, new Date(0)];
+const encStream = new AMFEncoder();
+for (const value of streamValues) {
+    encStream.writeObject(value);
+}
+const streamBytes = encStream.getBuffer();
+
+const byteStream = new AMFStreamDecoder();
+const byteByByte: any[] = [];
+for (let i = 0; i < streamBytes.length; i++) {
+    byteByByte.push(...byteStream.push(streamBytes.subarray(i, i + 1)));
+}
+byteStream.end();
+assert(byteByByte.length === streamValues.length, 'Stream decoder emits every value when fed byte by byte');
+assert(byteByByte[0].tags[1] === 'b' && byteByByte[1] === 'hello' && byteByByte[2] === 12345, 'Stream decoder values correct');
+assert(byteByByte[3].again === byteByByte[0].shared && byteByByte[3].tags[0] === 'a', 'Stream decoder shares references across values');
+assert(byteByByte[4] instanceof Date && byteByByte[4].getTime() === 0, 'Stream decoder decodes dates');
+
+const partialStream = new AMFStreamDecoder();
+assert(partialStream.push(streamBytes.subarray(0, 5)).length === 0 && partialStream.getBytesBuffered() === 5, 'Partial value stays buffered');
+let partialEndThrown = false;
+try {
+    partialStream.end();
+} catch (e) {
+    partialEndThrown = true;
+}
+assert(partialEndThrown, 'Ending mid-value throws');
+
+const webStream = new ReadableStream<Uint8Array>({
+    start(controller) {
+        controller.enqueue(streamBytes.subarray(0, 7));
+        controller.enqueue(streamBytes.subarray(7, 30));
+        controller.enqueue(streamBytes.subarray(30));
+        controller.close();
+    }
+});
+const fromWebStream: any[] = [];
+for await (const value of AMFStreamDecoder.decodeStream(webStream)) {
+    fromWebStream.push(value);
+}
+assert(deepEqual(fromWebStream.slice(0, 4), byteByByte.slice(0, 4)), 'Stream decoder iterates a ReadableStream');
+
+async function* nodeLikeStream(): AsyncGenerator<Uint8Array> {
+    const enc0 = new AMF0Encoder();
+    enc0.writeObject('amf0');
+    enc0.writeObject({ n: 1 });
+    const bytes = enc0.getBuffer();
+    yield bytes.subarray(0, 3);
+    yield bytes.subarray(3);
+}
+const fromNodeStream: any[] = [];
+for await (const value of AMFStreamDecoder.decodeStream(nodeLikeStream(), AMFContext.defaultContext, 0)) {
+    fromNodeStream.push(value);
+}
+assert(fromNodeStream[0] === 'amf0' && fromNodeStream[1].n === 1, 'Stream decoder iterates async iterables in AMF0 mode');
+
+class StreamRow extends Serializable {
+    static created = 0;
+    public id: number = 0;
+    public label: string = '';
+    constructor() {
+        super();
+        StreamRow.created++;
+    }
+}
+const streamRowContext = new AMFContext();
+streamRowContext.registerClassAlias('test.StreamRow', StreamRow);
+const streamRows: StreamRow[] = [];
+for (let i = 0; i < 3000; i++) {
+    const row = new StreamRow();
+    row.id = i;
+    row.label = 'row' + (i % 7);
+    streamRows.push(row);
+}
+const encRows = new AMFEncoder(streamRowContext);
+encRows.writeObject({ rows: new ArrayCollection(streamRows), bytes: new Uint8Array(300), when: new Date(0) });
+encRows.writeObject(streamRows[5]);
+const rowBytes = encRows.getBuffer();
+StreamRow.created = 0;
+const rowStream = new AMFStreamDecoder(streamRowContext);
+const rowValues: any[] = [];
+for (let i = 0; i < rowBytes.length; i++) {
+    rowValues.push(...rowStream.push(rowBytes.subarray(i, i + 1)));
+}
+rowStream.end();
+assert(rowValues.length === 2 && rowValues[0].rows.source.length === 3000 && rowValues[0].rows.source[2999].label === 'row3', 'Large value fed byte by byte decodes');
+assert(StreamRow.created === 3000, 'Large value fed byte by byte is parsed only once');
+assert(rowValues[1] === rowValues[0].rows.source[5], 'Scanned values keep sharing references');
+
+const enc0Rows = new AMF0Encoder();
+enc0Rows.writeObject({ list: [1, 'two', { three: 3 }], when: new Date(0) });
+enc0Rows.writeObject('next');
+const amf0RowBytes = enc0Rows.getBuffer();
+const amf0RowStream = new AMFStreamDecoder(AMFContext.defaultContext, 0);
+const amf0RowValues: any[] = [];
+for (let i = 0; i < amf0RowBytes.length; i++) {
+    amf0RowValues.push(...amf0RowStream.push(amf0RowBytes.subarray(i, i + 1)));
+}
+assert(amf0RowValues.length === 2 && amf0RowValues[0].list[2].three === 3 && amf0RowValues[1] === 'next', 'AMF0 values fed byte by byte decode');
+
+const encCounters = new AMFEncoder();
+encCounters.writeObject([counter, 'after']);
+const counterStreamBytes = encCounters.getBuffer();
+const counterStream = new AMFStreamDecoder(contextA);
+const counterValues: any[] = [];
+for (let i = 0; i < counterStreamBytes.length; i++) {
+    counterValues.push(...counterStream.push(counterStreamBytes.subarray(i, i + 1)));
+}
+assert(counterValues.length === 1 && counterValues[0][0].value === 5 && counterValues[0][1] === 'after', 'Custom externalizables fall back to retrying the value');
+
+const badStream = new AMFStreamDecoder();
+assert(badStream.push(streamBytes.subarray(0, 3)).length === 0, 'Bad stream buffers a partial value');
+const badTail = new Uint8Array(streamBytes.length - 3 + 2);
+badTail.set(streamBytes.subarray(3));
+badTail.set([0xFF, 0x01], streamBytes.length - 3);
+const beforeError = badStream.push(badTail);
+assert(beforeError.length === streamValues.length, 'Values decoded before an error are returned');
+assert(badStream.getBytesBuffered() === 2, 'Failing value stays buffered');
+const deferredError = errorOf(() => badStream.push(new Uint8Array(0)));
+assert(deferredError instanceof AMFUnknownTypeError, 'Error raised on the next push');
+assert(errorOf(() => badStream.push(new Uint8Array([0x01]))) === deferredError && badStream.getBytesBuffered() === 2, 'Failed stream keeps raising the same error');
+assert(errorOf(() => badStream.end()) === deferredError, 'Failed stream raises the error on end');
+
+const badFirst = new AMFStreamDecoder();
+badFirst.push(new Uint8Array([0x06]));
+const immediateError = errorOf(() => badFirst.push(new Uint8Array([0x04])));
+assert(immediateError instanceof AMFInvalidReferenceError && badFirst.getBytesBuffered() === 2, 'Error without decoded values is thrown immediately');
+
+// 21. 连续值解码测试
+console.log('\n--- Testing Concatenated Values ---');
+assert(deepEqual(new AMFDecoder(streamBytes).decodeAll().slice(0, 4), byteByByte.slice(0, 4)), 'decodeAll returns every concatenated value');
+const iterated: any[] = [];
+for (const value of new AMFDecoder(streamBytes)) {
+    iterated.push(value);
+}
+assert(iterated.length === streamValues.length && iterated[3].again === iterated[0].shared, 'Decoder iterator shares references across values');
+
+const encExact = new AMFEncoder();
+encExact.writeObject({ ok: true });
+const exactBytes = encExact.getBuffer();
+assert(new AMFDecoder(exactBytes).decodeExact().ok === true, 'decodeExact accepts a single complete value');
+let trailingMessage = '';
+try {
+    new AMFDecoder(new Uint8Array([...exactBytes, 0x01, 0x01])).decodeExact();
+} catch (e) {
+    trailingMessage = (e as Error).message;
+}
+assert(trailingMessage.indexOf('2 bytes remaining') !== -1, 'decodeExact reports trailing bytes');
+
+const enc0Exact = new AMF0Encoder();
+enc0Exact.writeObject('a');
+enc0Exact.writeObject(2);
+assert(deepEqual(new AMF0Decoder(enc0Exact.getBuffer()).decodeAll(), ['a', 2]), 'decodeAll works for AMF0');
+
+// 22. 写入器缓冲区测试
+console.log('\n--- Testing Writer Buffer ---');
+const growing = new AMFEncoder();
+const mixedText = 'a' + 'é' + '中' + '😀' + '\uD800';
+for (let i = 0; i < 1000; i++) {
+    growing.writeObject(mixedText + i);
+}
+const growingBytes = growing.getBuffer();
+const growingValues = new AMFDecoder(growingBytes).decodeAll();
+assert(growingValues.length === 1000 && growingValues[999] === 'aé中😀\uFFFD999', 'Writer grows and encodes multi-byte strings');
+growing.writeByte(0x01);
+assert(growingBytes.length === growing.getLength() - 1, 'getBuffer returns a copy unaffected by later writes');
+
+const encAMF0Text = new AMF0Encoder();
+encAMF0Text.writeObject(mixedText);
+assert(encAMF0Text.getBuffer()[2] === 13 && new AMF0Decoder(encAMF0Text.getBuffer()).decode() === 'aé中😀\uFFFD', 'AMF0 string length prefix counts UTF-8 bytes');
+
+// 23. 零复制读取测试
+console.log('\n--- Testing Zero-Copy Reads ---');
+const encBlob = new AMFEncoder();
+encBlob.writeObject({ blob: new Uint8Array([1, 2, 3, 4]), label: 'short', text: 'long text with ünïcödé that goes past the ascii fast path' });
+const blobPayload = encBlob.getBuffer();
+const copied = new AMFDecoder(blobPayload).decode();
+const viewed = new AMFDecoder(blobPayload, { zeroCopy: true }).decode();
+assert(copied.blob.buffer !== blobPayload.buffer, 'ByteArray copied by default');
+assert(viewed.blob.buffer === blobPayload.buffer && bytesEqual(viewed.blob, new Uint8Array([1, 2, 3, 4])), 'ByteArray is a view with zeroCopy');
+assert(viewed.label === 'short' && viewed.text === 'long text with ünïcödé that goes past the ascii fast path', 'Strings decoded on both fast and slow paths');
+
+// 24. 解码资源限制测试
+console.log('\n--- Testing Decoder Limits ---');
+function limitOf(fn: () => any): string {
+    try {
+        fn();
+    } catch (e) {
+        return e instanceof AMFLimitError ? e.limit : 'other: ' + (e as Error).message;
+    }
+    return 'none';
+}
+const hugeU29 = [0xBF, 0xFF, 0xFF, 0xFF];
+
+const deepBytes: number[] = [];
+for (let i = 0; i < 10000; i++) {
+    deepBytes.push(0x09, 0x03, 0x01);
+}
+deepBytes.push(0x01);
+assert(limitOf(() => new AMFDecoder(new Uint8Array(deepBytes), { limits: { maxDepth: 64 } }).decode()) === 'maxDepth', 'Deeply nested arrays rejected by maxDepth');
+const shallow = new AMFEncoder();
+shallow.writeObject([[['ok']]]);
+assert(new AMFDecoder(shallow.getBuffer(), { limits: { maxDepth: 4 } }).decode()[0][0][0] === 'ok', 'Nesting within maxDepth decodes');
+
+assert(limitOf(() => new AMFDecoder(new Uint8Array([0x09, ...hugeU29]), { limits: { maxCollectionLength: 1000 } }).decode()) === 'maxCollectionLength', 'Huge array count rejected before allocation');
+assert(limitOf(() => new AMFDecoder(new Uint8Array([0x0D, ...hugeU29]), { limits: { maxCollectionLength: 1000 } }).decode()) === 'maxCollectionLength', 'Huge vector count rejected before allocation');
+assert(limitOf(() => new AMFDecoder(new Uint8Array([0x06, ...hugeU29]), { limits: { maxStringLength: 1024 } }).decode()) === 'maxStringLength', 'Huge string length rejected');
+assert(limitOf(() => new AMFDecoder(new Uint8Array([0x0C, ...hugeU29]), { limits: { maxByteArrayLength: 1024 } }).decode()) === 'maxByteArrayLength', 'Huge ByteArray length rejected');
+assert(limitOf(() => new AMFDecoder(new Uint8Array([0x0A, 0xBF, 0xFF, 0xFF, 0xF3, 0x01]), { limits: { maxTraitFields: 256 } }).decode()) === 'maxTraitFields', 'Huge trait field count rejected');
+
+const manyObjects = new AMFEncoder();
+manyObjects.writeObject(Array.from({ length: 100 }, (_, i) => ({ i })));
+manyObjects.writeObject([{ i: 0 }]);
+assert(limitOf(() => new AMFDecoder(manyObjects.getBuffer(), { limits: { maxObjects: 50 } }).decode()) === 'maxObjects', 'Too many objects rejected by maxObjects');
+assert(new AMFDecoder(manyObjects.getBuffer(), { limits: { maxObjects: 101 } }).decodeAll().length === 2, 'Object count resets for each top-level value');
+assert(limitOf(() => new AMFDecoder(manyObjects.getBuffer(), { limits: { maxTotalObjects: 101 } }).decodeAll()) === 'maxTotalObjects', 'maxTotalObjects counts across top-level values');
+const manyBodies = new AMFPacket(3);
+for (let i = 0; i < 20; i++) {
+    manyBodies.messages.push(new AMFMessage('Svc.call', '/' + i, [{ i }, { i }]));
+}
+const manyBodiesBytes = manyBodies.encode();
+assert(AMFPacket.decode(manyBodiesBytes, new AMFContext({ limits: { maxObjects: 10 } })).messages.length === 20, 'Small bodies pass the per-value limit');
+assert(limitOf(() => AMFPacket.decode(manyBodiesBytes, new AMFContext({ limits: { maxTotalObjects: 30 } }))) === 'maxTotalObjects', 'maxTotalObjects covers every packet body');
+const totalStream = new AMFStreamDecoder({ limits: { maxTotalObjects: 101 } });
+assert(totalStream.push(manyObjects.getBuffer()).length === 1 && limitOf(() => totalStream.end()) === 'maxTotalObjects', 'maxTotalObjects covers the whole stream');
+
+const limitError = (() => {
+    try {
+        new AMFDecoder(new Uint8Array([0x06, ...hugeU29]), { limits: { maxStringLength: 1024 } }).decode();
+    } catch (e) {
+        return e as AMFLimitError;
+    }
+})()!;
+assert(limitError.value === 0x7FFFFFF && limitError.max === 1024, 'AMFLimitError reports value and max');
+
+const deepAMF0: number[] = [];
+for (let i = 0; i < 10000; i++) {
+    deepAMF0.push(0x0A, 0x00, 0x00, 0x00, 0x01);
+}
+deepAMF0.push(0x05);
+assert(limitOf(() => new AMF0Decoder(new Uint8Array(deepAMF0), { limits: { maxDepth: 64 } }).decode()) === 'maxDepth', 'Deeply nested AMF0 arrays rejected by maxDepth');
+assert(limitOf(() => new AMF0Decoder(new Uint8Array([0x0A, 0xFF, 0xFF, 0xFF, 0xFF]), { limits: { maxCollectionLength: 1000 } }).decode()) === 'maxCollectionLength', 'Huge AMF0 strict array rejected');
+assert(limitOf(() => new AMF0Decoder(new Uint8Array([0x0C, 0xFF, 0xFF, 0xFF, 0xFF]), { limits: { maxStringLength: 1024 } }).decode()) === 'maxStringLength', 'Huge AMF0 long string rejected');
+
+// 随机篡改合法数据：在限制下解码要么成功，要么抛出 Error，不会挂起或耗尽内存
+const fuzzLimits = { maxDepth: 32, maxCollectionLength: 1000, maxStringLength: 4096, maxByteArrayLength: 4096, maxObjects: 1000, maxTraitFields: 64 };
+const fuzzSource = new AMFEncoder();
+fuzzSource.writeObject({ players: [gatewayPlayerOf('fuzz', 3)], tags: new AMFVector(AMF3.VECTOR_OBJECT, ['a', 'b']), blob: new Uint8Array([1, 2, 3]), when: new Date(0), list: new ArrayCollection([1, 'two']) });
+const fuzzSource0 = new AMF0Encoder();
+fuzzSource0.writeObject({ name: 'fuzz', list: [1, 2, 3], nested: { when: new Date(0) } });
+let fuzzSeed = 12345;
+function fuzzRandom(max: number): number {
+    fuzzSeed = (fuzzSeed * 1103515245 + 12345) & 0x7FFFFFFF;
+    return fuzzSeed % max;
+}
+let fuzzRuns = 0;
+let fuzzNonErrors = 0;
+for (const [source, version] of [[fuzzSource.getBuffer(), 3], [fuzzSource0.getBuffer(), 0]] as [Uint8Array, number][]) {
+    for (let i = 0; i < 500; i++) {
+        const mutated = source.slice(0, source.length - fuzzRandom(4));
+        for (let j = 0; j <= fuzzRandom(4); j++) {
+            mutated[fuzzRandom(mutated.length)] = fuzzRandom(256);
+        }
+        try {
+            const decoder = version === 3 ? new AMFDecoder(mutated, { limits: fuzzLimits }) : new AMF0Decoder(mutated, { limits: fuzzLimits });
+            decoder.decode();
+        } catch (e) {
+            if (!(e instanceof Error)) {
+                fuzzNonErrors++;
+            }
+        }
+        fuzzRuns++;
+    }
+}
+assert(fuzzRuns === 1000 && fuzzNonErrors === 0, 'Mutated payloads decode or throw an Error under limits');
+
+// 25. 错误类型测试
+console.log('\n--- Testing Typed Errors ---');
+function errorOf(fn: () => any): any {
+    try {
+        fn();
+    } catch (e) {
+        return e;
+    }
+    return null;
+}
+function indexOfAscii(bytes: Uint8Array, text: string): number {
+    const needle = ascii(text);
+    for (let i = 0; i + needle.length <= bytes.length; i++) {
+        if (needle.every((b, j) => bytes[i + j] === b)) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+const encPath = new AMFEncoder();
+encPath.writeObject({ players: [{ name: 'a' }, { name: 'b' }, { name: 'c' }, { name: 'd', inventory: 'ZZZZ' }] });
+const pathBytes = encPath.getBuffer();
+const zzzz = indexOfAscii(pathBytes, 'ZZZZ');
+const corrupted = pathBytes.slice();
+corrupted[zzzz - 2] = 0x7F;
+const unknownType = errorOf(() => new AMFDecoder(corrupted).decode());
+assert(unknownType instanceof AMFUnknownTypeError && unknownType instanceof AMFError && unknownType.code === AMFErrorCode.UNKNOWN_TYPE, 'Unknown marker raises AMFUnknownTypeError');
+assert(unknownType.path === 'root.players[3].inventory' && unknownType.offset === zzzz - 2 && unknownType.marker === 0x7F, 'Unknown marker error carries path, offset and marker');
+assert(unknownType.message === 'Unknown AMF3 type marker 0x7f at root.players[3].inventory (offset ' + (zzzz - 2) + ', marker 0x7f)', 'Error message is English with location');
+
+const truncatedError = errorOf(() => new AMFDecoder(pathBytes.slice(0, zzzz + 2)).decode());
+assert(truncatedError instanceof AMFUnexpectedEOFError && truncatedError.code === 'AMF_UNEXPECTED_EOF', 'Truncated input raises AMFUnexpectedEOFError');
+assert(truncatedError.path === 'root.players[3].inventory' && truncatedError.marker === 0x06 && truncatedError.offset === zzzz, 'EOF error carries path, marker and offset');
+
+const badString = errorOf(() => new AMFDecoder(new Uint8Array([0x06, 0x02])).decode());
+assert(badString instanceof AMFInvalidReferenceError && badString.table === 'string' && badString.index === 1 && badString.path === 'root', 'Bad string reference raises AMFInvalidReferenceError');
+const badObject = errorOf(() => new AMFDecoder(new Uint8Array([0x09, 0x05, 0x01, 0x01, 0x0A, 0x04])).decode());
+assert(badObject instanceof AMFInvalidReferenceError && badObject.table === 'object' && badObject.index === 2 && badObject.path === 'root[1]', 'Bad object reference raises AMFInvalidReferenceError with path');
+
+const unregistered = errorOf(() => new AMFDecoder(unknownBytes, { unknownClassPolicy: 'error' }).decode());
+assert(unregistered instanceof AMFUnregisteredClassError && unregistered.className === 'demo.User' && !unregistered.externalizable, 'Unregistered alias raises AMFUnregisteredClassError');
+const unregisteredExt = errorOf(() => new AMFDecoder(new Uint8Array([0x0A, 0x07, 0x07, ...ascii('x.Y')])).decode());
+assert(unregisteredExt instanceof AMFUnregisteredClassError && unregisteredExt.className === 'x.Y' && unregisteredExt.externalizable && unregisteredExt.code === 'AMF_UNREGISTERED_CLASS', 'Unregistered externalizable raises AMFUnregisteredClassError');
+
+const enc0Path = new AMF0Encoder();
+enc0Path.writeObject({ list: [1, 2, 'ZZZZ'] });
+const corrupted0 = enc0Path.getBuffer();
+corrupted0[indexOfAscii(corrupted0, 'ZZZZ') - 3] = 0x7F;
+const unknownType0 = errorOf(() => new AMF0Decoder(corrupted0).decode());
+assert(unknownType0 instanceof AMFUnknownTypeError && unknownType0.version === 0 && unknownType0.path === 'root.list[2]', 'AMF0 errors carry path');
+const badEnd0 = errorOf(() => new AMF0Decoder(new Uint8Array([0x03, 0x00, 0x00, 0x05])).decode());
+assert(badEnd0 instanceof AMFError && badEnd0.code === AMFErrorCode.INVALID_DATA && badEnd0.offset === 3, 'Bad AMF0 object end marker raises AMFError');
+
+const encodeError = errorOf(() => new AMFEncoder().writeObject({ a: [1, () => 1] }));
+assert(encodeError instanceof AMFEncodeError && encodeError.code === 'AMF_ENCODE_ERROR' && encodeError.path === 'root.a[1]', 'Unencodable value raises AMFEncodeError with path');
+const encodeError0 = errorOf(() => new AMF0Encoder().writeObject({ 'odd key': Symbol('x') }));
+assert(encodeError0 instanceof AMFEncodeError && encodeError0.path === 'root["odd key"]', 'AMF0 encode error quotes non-identifier keys');
+
+assert(errorOf(() => new AMFDecoder(new Uint8Array([0x06, 0xBF, 0xFF, 0xFF, 0xFF]), { limits: { maxStringLength: 1 } }).decode()).code === 'AMF_LIMIT_EXCEEDED', 'AMFLimitError has a stable code');
+const streamEnd = new AMFStreamDecoder();
+streamEnd.push(new Uint8Array([0x06, 0x09]));
+assert(errorOf(() => streamEnd.end()) instanceof AMFUnexpectedEOFError, 'Stream ending mid-value raises AMFUnexpectedEOFError');
+
+// 26. 宽松解码测试
+console.log('\n--- Testing Lenient Decoding ---');
+const lenientValid = new AMFDecoder(pathBytes).decodeLenient();
+assert(lenientValid.complete && lenientValid.diagnostics.length === 0 && lenientValid.value.players[3].inventory === 'ZZZZ', 'Lenient decoding of valid data matches decode');
+
+const lenientUnknown = new AMFDecoder(corrupted).decodeLenient();
+const unknownSlot = lenientUnknown.value.players[3].inventory;
+assert(!lenientUnknown.complete && lenientUnknown.value.players[2].name === 'c' && lenientUnknown.value.players[3].name === 'd', 'Unknown marker keeps values decoded so far');
+assert(unknownSlot instanceof AMFPlaceholder && unknownSlot.code === AMFErrorCode.UNKNOWN_TYPE && unknownSlot.marker === 0x7F && unknownSlot.offset === zzzz - 2, 'Unknown marker replaced by placeholder');
+assert(lenientUnknown.diagnostics.length === 1 && lenientUnknown.diagnostics[0].path === 'root.players[3].inventory', 'Diagnostic records the path');
+
+const truncatedSave = new AMFDecoder(pathBytes.slice(0, zzzz + 2)).decodeLenient();
+assert(!truncatedSave.complete && truncatedSave.diagnostics[0] instanceof AMFUnexpectedEOFError, 'Truncated input reported as EOF diagnostic');
+assert(truncatedSave.value.players.length === 4 && truncatedSave.value.players[1].name === 'b' && truncatedSave.value.players[3].inventory instanceof AMFPlaceholder, 'Truncated input returns partial value');
+assert(truncatedSave.diagnostics.length === 1, 'Only the first failure is reported after giving up');
+
+const badRefs = new AMFDecoder(new Uint8Array([0x09, 0x07, 0x01, 0x04, 0x01, 0x0A, 0x0E, 0x04, 0x02])).decodeLenient();
+assert(badRefs.complete && badRefs.value[0] === 1 && badRefs.value[1] instanceof AMFPlaceholder && badRefs.value[2] === 2, 'Bad reference replaced by placeholder and decoding continues');
+assert(badRefs.diagnostics[0] instanceof AMFInvalidReferenceError && badRefs.diagnostics[0].path === 'root[1]', 'Bad reference diagnostic has path');
+const badVectorRef = new AMFDecoder(new Uint8Array([0x10, 0x05, 0x00, 0x01, 0x04, 0x01, 0x0A, 0x0E])).decodeLenient();
+assert(badVectorRef.value[1] instanceof AMFPlaceholder && badVectorRef.diagnostics[0].path === 'root[1]', 'Bad reference in Vector.<Object> has the element path');
+
+const unknownExt = new AMFDecoder(new Uint8Array([0x09, 0x05, 0x01, 0x06, 0x03, ...ascii('a'), 0x0A, 0x07, 0x07, ...ascii('x.Y'), 0x01, 0x02])).decodeLenient();
+assert(unknownExt.value[0] === 'a' && unknownExt.value[1] instanceof AMFPlaceholder && unknownExt.value[1].className === 'x.Y' && !unknownExt.complete, 'Unregistered externalizable becomes placeholder with class name');
+
+const lenientAlias = new AMFDecoder(unknownBytes, { unknownClassPolicy: 'error' });
+const lenientAliasResult = lenientAlias.decodeLenient();
+assert(lenientAliasResult.complete && lenientAliasResult.value.__class === 'demo.User' && lenientAliasResult.diagnostics[0] instanceof AMFUnregisteredClassError, 'Unregistered alias decoded as Serializable with diagnostic');
+lenientAlias.setPosition(0);
+assert(errorOf(() => lenientAlias.decode()) instanceof AMFUnregisteredClassError, 'decode still throws after decodeLenient');
+
+const enc0Lenient = new AMF0Encoder();
+enc0Lenient.writeObject({ name: 'save', list: [1, 2, 3] });
+const lenient0 = new AMF0Decoder(enc0Lenient.getBuffer().slice(0, -12)).decodeLenient();
+assert(!lenient0.complete && lenient0.value.name === 'save' && lenient0.value.list[0] === 1, 'AMF0 truncated input returns partial value');
+assert(new AMFDecoder(new Uint8Array(0)).decodeLenient().value instanceof AMFPlaceholder, 'Empty input yields a placeholder');
+let lenientThrown = 0;
+for (let i = 0; i < 300; i++) {
+    const mutated = fuzzSource.getBuffer().slice(0, fuzzSource.getLength() - fuzzRandom(8));
+    mutated[fuzzRandom(mutated.length)] = fuzzRandom(256);
+    try {
+        new AMFDecoder(mutated, { limits: fuzzLimits }).decodeLenient();
+    } catch (e) {
+        lenientThrown++;
+    }
+}
+assert(lenientThrown === 0, 'Lenient decoding of mutated payloads never throws');
+
+// 27. 未注册外部化类型透传测试
+console.log('\n--- Testing Raw Externalizable Passthrough ---');
+class SecretToken extends Externalizable {
+    label = '';
+    data: any = null;
+    code = 0;
+
+    constructor() {
+        super('game.Secret');
+    }
+
+    write(encoder: AMFEncoder): void {
+        encoder.writeObject(this.label);
+        encoder.writeObject(this.data);
+        encoder.writeInt32BE(this.code);
+    }
+
+    static read(decoder: AMFDecoder): SecretToken {
+        const token = new SecretToken();
+        token.label = decoder.decode();
+        token.data = decoder.decode();
+        token.code = decoder.readInt32BE();
+        return token;
+    }
+}
+const secretContext = new AMFContext();
+secretContext.registerExternalizable('game.Secret', SecretToken);
+const secret = new SecretToken();
+secret.label = 'inner';
+secret.data = { k: 1 };
+secret.code = 42;
+
+const encSecret = new AMFEncoder(secretContext);
+encSecret.writeObject(secret);
+const secretBytes = encSecret.getBuffer();
+const rawTop = new AMFDecoder(secretBytes, { unknownExternalizable: AMFRawExternalizable }).decode();
+assert(rawTop instanceof AMFRawExternalizable && rawTop.__class === 'game.Secret' && rawTop.bytes.length > 0, 'Unregistered externalizable captured as raw bytes');
+const encRawTop = new AMFEncoder();
+encRawTop.writeObject(rawTop);
+assert(bytesEqual(encRawTop.getBuffer(), secretBytes), 'Raw externalizable re-encoded unchanged');
+
+const sharedData = secret.data;
+const buildSave = (n: number) => ({ secret, after: 'inner', shared: sharedData, n });
+const encSave = new AMFEncoder(secretContext);
+encSave.writeObject(buildSave(1));
+const rawContext = new AMFContext();
+rawContext.registerExternalizable('game.Secret', AMFRawExternalizable.reader(decoder => {
+    decoder.decode();
+    decoder.decode();
+    decoder.readInt32BE();
+}));
+const proxied = new AMFDecoder(encSave.getBuffer(), rawContext).decode();
+assert(proxied.secret instanceof AMFRawExternalizable && proxied.shared.k === 1 && proxied.after === 'inner', 'Known-shape reader keeps later references valid');
+proxied.n = 2;
+const encProxied = new AMFEncoder(rawContext);
+encProxied.writeObject(proxied);
+const encExpected = new AMFEncoder(secretContext);
+encExpected.writeObject(buildSave(2));
+assert(bytesEqual(encProxied.getBuffer(), encExpected.getBuffer()), 'Proxy edit re-emits raw externalizable and references unchanged');
+const reread = new AMFDecoder(encProxied.getBuffer(), secretContext).decode();
+assert(reread.secret instanceof SecretToken && reread.secret.code === 42 && reread.shared === reread.secret.data, 'Re-encoded payload decodes with the real class');
+
+const nestedRaw = errorOf(() => new AMFDecoder(encSave.getBuffer(), { unknownExternalizable: AMFRawExternalizable }).decode());
+assert(nestedRaw instanceof AMFUnregisteredClassError && nestedRaw.className === 'game.Secret' && nestedRaw.path === 'root.secret', 'Nested raw capture is reported instead of swallowing later fields');
+const nestedRawLenient = new AMFDecoder(encSave.getBuffer(), { unknownExternalizable: AMFRawExternalizable }).decodeLenient();
+assert(nestedRawLenient.value.secret instanceof AMFPlaceholder && nestedRawLenient.diagnostics[0].path === 'root.secret', 'Lenient decoding reports the nested raw capture');
+const secretPair = new AMFEncoder(secretContext);
+secretPair.writeObject([secret, 'after']);
+assert(errorOf(() => new AMFDecoder(secretPair.getBuffer(), { unknownExternalizable: AMFRawExternalizable }).decode()).path === 'root[0]', 'Raw capture rejected for array elements');
+const enc0Secret = new AMF0Encoder(false, secretContext);
+enc0Secret.writeAMF3Object(secret);
+const rawTop0 = new AMF0Decoder(enc0Secret.getBuffer(), { unknownExternalizable: AMFRawExternalizable }).decode();
+assert(rawTop0 instanceof AMFRawExternalizable && rawTop0.__class === 'game.Secret', 'Top-level AMF3 switch in AMF0 can be captured raw');
+
+const rawOptions = { unknownExternalizable: AMFRawExternalizable };
+const rawThenString = new Uint8Array([...secretBytes, 0x06, 0x03, ...ascii('a')]);
+const rawAllError = errorOf(() => new AMFDecoder(rawThenString, rawOptions).decodeAll());
+assert(rawAllError instanceof AMFUnregisteredClassError && rawAllError.className === 'game.Secret', 'decodeAll rejects raw capture of a top-level value');
+assert(errorOf(() => [...new AMFDecoder(rawThenString, rawOptions)]) instanceof AMFUnregisteredClassError, 'values() rejects raw capture of a top-level value');
+
+const rawPacket = new AMFPacket(3);
+rawPacket.messages.push(new AMFMessage('/1', '', secret));
+rawPacket.messages.push(new AMFMessage('/2', '', 'after'));
+const rawPacketDecoded = AMFPacket.decode(rawPacket.encode(secretContext), new AMFContext(rawOptions));
+assert(rawPacketDecoded.messages.length === 2 && rawPacketDecoded.messages[0].value instanceof AMFRawExternalizable && rawPacketDecoded.messages[1].value === 'after', 'Packet raw capture stops at the body length');
+const rawPacketUnknown = new Uint8Array([
+    0x00, 0x03, 0x00, 0x00, 0x00, 0x01,
+    0x00, 0x02, 0x2F, 0x31, 0x00, 0x00,
+    0xFF, 0xFF, 0xFF, 0xFF,
+    0x11, 0x0A, 0x07, 0x07, ...ascii('x.Y'), 0x04
+]);
+assert(errorOf(() => AMFPacket.decode(rawPacketUnknown, new AMFContext(rawOptions))) instanceof AMFUnregisteredClassError, 'Packet body of unknown length rejects raw capture');
+
+const rawStreamBytes = new Uint8Array([0x06, 0x03, ...ascii('a'), 0x0A, 0x07, 0x07, ...ascii('x.Y'), 0x04, 0x05, 0x06, 0x07]);
+const rawStream = new AMFStreamDecoder(rawOptions);
+const rawStreamFirst = rawStream.push(rawStreamBytes.subarray(0, 11));
+const rawStreamSecond = rawStream.push(rawStreamBytes.subarray(11));
+const rawStreamEnd = rawStream.end();
+assert(rawStreamFirst.length === 1 && rawStreamFirst[0] === 'a' && rawStreamSecond.length === 0, 'Stream waits for end() before a raw capture');
+assert(rawStreamEnd.length === 1 && rawStreamEnd[0].__class === 'x.Y' && bytesEqual(rawStreamEnd[0].bytes, new Uint8Array([4, 5, 6, 7])), 'Stream raw capture holds every byte up to the end');
+
+// 28. 数据查看器测试
+console.log('\n--- Testing Inspector ---');
+const inspectPlayer = gatewayPlayerOf('tom', 3);
+const encInspect = new AMFEncoder();
+encInspect.writeObject([inspectPlayer, inspectPlayer, 'tom', new Uint8Array([1, 2])]);
+const inspectBytes = encInspect.getBuffer();
+const inspection = inspect(inspectBytes);
+const inspectRoot = inspection.nodes[0];
+assert(inspection.error === null && inspection.nodes.length === 1 && inspectRoot.markerName === 'ARRAY' && inspectRoot.start === 0 && inspectRoot.end === inspectBytes.length, 'Inspector covers the whole payload');
+const [firstPlayer, secondPlayer, tomRef, blobNode] = inspectRoot.children;
+assert(firstPlayer.key === 0 && firstPlayer.reference === null && firstPlayer.trait!.inline && firstPlayer.trait!.className === 'demo.Player' && firstPlayer.trait!.fields.join() === 'name,level', 'Inline object node has trait details');
+assert(firstPlayer.children[0].key === 'name' && firstPlayer.children[0].value === 'tom' && bytesEqual(inspectBytes.subarray(firstPlayer.children[1].start, firstPlayer.children[1].end), new Uint8Array([0x04, 0x03])), 'Child nodes carry keys, values and byte ranges');
+assert(secondPlayer.reference === 1 && secondPlayer.value === firstPlayer.value && tomRef.markerName === 'STRING' && tomRef.reference === 3, 'Reference nodes report the referenced index');
+assert(blobNode.markerName === 'BYTE_ARRAY' && blobNode.end - blobNode.start === 4, 'ByteArray node spans marker, header and bytes');
+
+const inspectText = inspection.toText();
+assert(inspectText.indexOf('AMF3.OBJECT (0x0a) trait #0 inline demo.Player {name, level}') !== -1 && inspectText.indexOf('[1]: AMF3.OBJECT (0x0a) ref #1') !== -1, 'Text rendering shows markers, traits and references');
+const inspectJSON = JSON.parse(JSON.stringify(inspection));
+assert(inspectJSON.nodes[0].children[3].value === 'ByteArray(2)' && inspectJSON.nodes[0].children[0].trait.className === 'demo.Player' && inspectJSON.error === null, 'JSON rendering is serializable');
+
+const enc0Inspect = new AMF0Encoder();
+enc0Inspect.writeObject('connect');
+enc0Inspect.writeAMF3Object({ z: 1 });
+const inspection0 = inspect(enc0Inspect.getBuffer(), AMFContext.defaultContext, 0);
+assert(inspection0.nodes.length === 2 && inspection0.nodes[0].version === 0 && inspection0.nodes[1].markerName === 'AMF3_OBJECT' && inspection0.nodes[1].children[0].version === 3, 'AMF0 inspection follows the switch to AMF3');
+
+const inspectTruncated = inspect(inspectBytes.slice(0, 20));
+assert(inspectTruncated.error instanceof AMFUnexpectedEOFError && !inspectTruncated.nodes[0].complete && inspectTruncated.toText().indexOf('(incomplete)') !== -1, 'Inspector returns partial tree with the error');
+
+function gatewayPlayerOf(name: string, level: number): Player {
+    const p = new Player();
+    p.name = name;
+    p.level = level;
+    return p;
+}